@@ -23,7 +23,7 @@ module.exports = {
         npmPublish: false 
       }],
       ['@semantic-release/git', {
-        assets: ['package.json', 'CHANGELOG.md'],
+        assets: ['package.json', 'CHANGELOG.md', 'src/version.ts'],
         message: 'chore(release): ${nextRelease.version} [skip ci]\n\n${nextRelease.notes}'
       }],
       '@semantic-release/github'
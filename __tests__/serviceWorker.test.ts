@@ -0,0 +1,172 @@
+jest.mock('firebase/app', () => ({ initializeApp: jest.fn() }));
+jest.mock('firebase/messaging/sw', () => ({ getMessaging: jest.fn(), onBackgroundMessage: jest.fn() }));
+jest.mock('../src/services/api', () => ({
+  __esModule: true,
+  default: jest.fn(),
+  resolveBaseUrl: jest.fn(),
+}));
+jest.mock('../src/services/eventService', () => ({ TowncryerEventService: jest.fn() }));
+jest.mock('../src/services/serviceWorkerBridge', () => ({
+  ...jest.requireActual('../src/services/serviceWorkerBridge'),
+  loadServiceWorkerCustomerId: jest.fn().mockResolvedValue('customer-1'),
+}));
+
+import { getMessaging, onBackgroundMessage } from 'firebase/messaging/sw';
+import ApiService from '../src/services/api';
+import { TowncryerEventService } from '../src/services/eventService';
+import { initializeServiceWorker } from '../src/serviceWorker';
+import { FirebaseConfig } from '../src/types';
+
+type Handler = (event: object) => void;
+
+describe('initializeServiceWorker', () => {
+  let handlers: Record<string, Handler>;
+  let handleBackgroundMessage: (payload: object) => Promise<void>;
+  let pages: { url: string; focus: jest.Mock; postMessage: jest.Mock }[];
+  let clients: { matchAll: jest.Mock; openWindow: jest.Mock };
+  let registration: { showNotification: jest.Mock };
+  let publishEvent: jest.Mock;
+
+  const notificationEvent = (data: object, action = '') => {
+    const pending: Promise<unknown>[] = [];
+    return {
+      event: {
+        notification: { data, tag: '', close: jest.fn() },
+        action,
+        waitUntil: (promise: Promise<unknown>) => pending.push(promise),
+        stopImmediatePropagation: jest.fn(),
+      },
+      done: () => Promise.all(pending),
+    };
+  };
+
+  beforeEach(() => {
+    handlers = {};
+    pages = [{ url: 'http://localhost/inbox', focus: jest.fn().mockResolvedValue(undefined), postMessage: jest.fn() }];
+    clients = { matchAll: jest.fn().mockResolvedValue(pages), openWindow: jest.fn().mockResolvedValue(null) };
+    registration = { showNotification: jest.fn().mockResolvedValue(undefined) };
+    publishEvent = jest.fn().mockResolvedValue(undefined);
+    (TowncryerEventService as unknown as jest.Mock).mockImplementation(() => ({ publishEvent }));
+    (ApiService as unknown as jest.Mock).mockImplementation(() => ({
+      setBaseUrl: jest.fn(),
+      setApiKey: jest.fn().mockResolvedValue(undefined),
+    }));
+    (onBackgroundMessage as jest.Mock).mockImplementation((_, handler) => {
+      handleBackgroundMessage = handler;
+      return () => undefined;
+    });
+    jest.spyOn(self, 'addEventListener').mockImplementation((type: string, handler: unknown) => {
+      // Our listeners must be in place before Firebase registers its own
+      expect(getMessaging).not.toHaveBeenCalled();
+      handlers[type] = handler as Handler;
+    });
+    Object.assign(self, { clients, registration });
+
+    initializeServiceWorker({
+      firebase: {} as FirebaseConfig,
+      towncryer: { authConfig: { apiKey: 'public-key' } },
+      icon: '/icon.png',
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should show data messages, pass every message on to open pages and track them', async () => {
+    await handleBackgroundMessage({ messageId: 'm-1', data: { title: 'Hi', body: 'There', link: '/orders/1', campaignId: 'c-1' } });
+    await handleBackgroundMessage({ messageId: 'm-2', notification: { title: 'Shown by Firebase' } });
+
+    expect(pages[0].postMessage).toHaveBeenCalledTimes(2);
+    expect(pages[0].postMessage.mock.calls[0][0]).toMatchObject({
+      type: 'towncryer:notification',
+      notification: { id: 'm-1', title: 'Hi', body: 'There' },
+    });
+    expect(registration.showNotification).toHaveBeenCalledTimes(1);
+    expect(registration.showNotification).toHaveBeenCalledWith('Hi', {
+      body: 'There',
+      icon: '/icon.png',
+      tag: 'm-1',
+      data: { notificationId: 'm-1', link: '/orders/1', campaignId: 'c-1', customerId: 'customer-1' },
+    });
+    expect(publishEvent.mock.calls.map(([event]) => [event.name, event.data.notificationId])).toEqual([
+      ['push_notification.delivered', 'm-1'],
+      ['push_notification.displayed', 'm-1'],
+      ['push_notification.delivered', 'm-2'],
+      ['push_notification.displayed', 'm-2'],
+    ]);
+  });
+
+  it('should open the link and record the click', async () => {
+    const { event, done } = notificationEvent({ notificationId: 'm-1', link: '/orders/1', customerId: 'customer-1' }, 'view');
+
+    handlers.notificationclick(event);
+    await done();
+
+    expect(event.stopImmediatePropagation).toHaveBeenCalled();
+    expect(clients.openWindow).toHaveBeenCalledWith('http://localhost/orders/1');
+    expect(publishEvent).toHaveBeenCalledWith({
+      name: 'push_notification.clicked',
+      customer: { externalId: 'customer-1' },
+      data: expect.objectContaining({ notificationId: 'm-1', link: '/orders/1', action: 'view' }),
+    });
+  });
+
+  it('should open the default link instead of links outside the app', async () => {
+    const { event, done } = notificationEvent({ notificationId: 'm-1', link: 'javascript:alert(1)', customerId: 'customer-1' });
+
+    handlers.notificationclick(event);
+    await done();
+
+    expect(clients.openWindow).toHaveBeenCalledWith('http://localhost/');
+  });
+
+  it('should focus an open page for notifications shown by Firebase', async () => {
+    const { event, done } = notificationEvent({
+      FCM_MSG: { fcmMessageId: 'm-2', fcmOptions: { link: '/inbox' }, data: { campaignId: 'c-2' } },
+    });
+
+    handlers.notificationclick(event);
+    await done();
+
+    expect(pages[0].focus).toHaveBeenCalled();
+    expect(clients.openWindow).not.toHaveBeenCalled();
+    expect(publishEvent).toHaveBeenCalledWith(expect.objectContaining({
+      customer: { externalId: 'customer-1' },
+      data: expect.objectContaining({ notificationId: 'm-2', campaignId: 'c-2' }),
+    }));
+  });
+
+  it('should log in once with the API key', async () => {
+    handlers.notificationclose(notificationEvent({ notificationId: 'm-1' }).event);
+    const { event, done } = notificationEvent({ notificationId: 'm-2' });
+    handlers.notificationclose(event);
+    await done();
+
+    const apiService = (ApiService as unknown as jest.Mock).mock.results[0].value;
+    expect(ApiService).toHaveBeenCalledTimes(1);
+    expect(apiService.setApiKey).toHaveBeenCalledWith('public-key');
+    expect(publishEvent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave clicks on other notifications to their own handlers', () => {
+    const { event } = notificationEvent({ something: 'else' });
+
+    handlers.notificationclick(event);
+
+    expect(event.stopImmediatePropagation).not.toHaveBeenCalled();
+    expect(event.notification.close).not.toHaveBeenCalled();
+  });
+
+  it('should record dismissals and ignore other notifications', async () => {
+    const dismissed = notificationEvent({ notificationId: 'm-1' });
+    const other = notificationEvent({ something: 'else' });
+
+    handlers.notificationclose(dismissed.event);
+    handlers.notificationclose(other.event);
+    await dismissed.done();
+
+    expect(publishEvent).toHaveBeenCalledTimes(1);
+    expect(publishEvent.mock.calls[0][0].name).toBe('push_notification.closed');
+  });
+});
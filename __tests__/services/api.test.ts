@@ -1,6 +1,8 @@
 import axios, { AxiosInstance, CreateAxiosDefaults } from 'axios';
-import ApiService, { AxiosInstanceFactory } from '../../src/services/api';
-import { AuthApi } from '@towncryerio/towncryer-js-api-client';
+import ApiService, { AxiosInstanceFactory, ENVIRONMENT_BASE_URLS, resolveBaseUrl } from '../../src/services/api';
+import { AuthApi, EventsApi } from '@towncryerio/towncryer-js-api-client';
+import { AuthenticationError } from '../../src/utils/errors';
+import { MemoryTokenStore, getTokenStoreKey } from '../../src/services/tokenStore';
 
 // Mock the external dependencies
 // jest.mock('axios');
@@ -85,9 +87,6 @@ describe('ApiService', () => {
     // Clear all mocks before each test
     jest.clearAllMocks();
     
-    // Reset the singleton instance
-    (ApiService as any).instance = undefined;
-    
     // Create a new instance for each test
     mockInstance = new MockAxiosInstanceFactory();
     createSpy = jest.spyOn(mockInstance, 'create').mockImplementation((config?: any) => ({
@@ -95,15 +94,23 @@ describe('ApiService', () => {
       ...(config || {})
     }));
     
-    apiService = ApiService.getInstance(mockInstance);
+    apiService = new ApiService(mockInstance);
   });
 
-  describe('getInstance', () => {
-    it('should return the same instance when called multiple times', () => {
+  describe('constructor', () => {
+    it('should create independent instances that do not share state', () => {
       const factory = new MockAxiosInstanceFactory();
-      const instance1 = ApiService.getInstance(factory);
-      const instance2 = ApiService.getInstance(factory);
-      expect(instance1).toBe(instance2);
+      const instance1 = new ApiService(factory);
+      const instance2 = new ApiService(factory);
+
+      instance1.setTokenAndOrganisationId('token-a', 'org-a');
+      instance2.setTokenAndOrganisationId('token-b', 'org-b');
+
+      expect(instance1).not.toBe(instance2);
+      expect((instance1 as any).token).toBe('token-a');
+      expect((instance1 as any).tenantId).toBe('org-a');
+      expect((instance2 as any).token).toBe('token-b');
+      expect((instance2 as any).tenantId).toBe('org-b');
     });
   });
 
@@ -121,6 +128,41 @@ describe('ApiService', () => {
     });
   });
 
+  describe('setBaseUrl validation', () => {
+    it('should reject malformed URLs', () => {
+      expect(() => apiService.setBaseUrl('not a url')).toThrow('Invalid base URL');
+    });
+
+    it('should reject non-http protocols', () => {
+      expect(() => apiService.setBaseUrl('ftp://api.towncryer.io')).toThrow('Invalid base URL protocol');
+    });
+  });
+
+  describe('setEnvironment', () => {
+    it('should switch to the default base URL of the environment', () => {
+      const setBaseUrlSpy = jest.spyOn(apiService, 'setBaseUrl');
+
+      apiService.setEnvironment('staging');
+
+      expect(setBaseUrlSpy).toHaveBeenCalledWith(ENVIRONMENT_BASE_URLS.staging);
+    });
+  });
+
+  describe('resolveBaseUrl', () => {
+    it('should default to the staging environment', () => {
+      expect(resolveBaseUrl()).toBe(ENVIRONMENT_BASE_URLS.staging);
+    });
+
+    it('should prefer an explicit base URL over the environment', () => {
+      expect(resolveBaseUrl('staging', 'https://proxy.example.com/api/v1/')).toBe('https://proxy.example.com/api/v1');
+    });
+
+    it('should reject unknown environments', () => {
+      expect(() => resolveBaseUrl('qa' as any)).toThrow('Unknown environment: qa');
+      expect(() => resolveBaseUrl('toString' as any)).toThrow('Unknown environment: toString');
+    });
+  });
+
   describe('setToken', () => {
     it('should update the token and recreate axios instance', () => {
       const testToken = 'test-token';
@@ -199,6 +241,97 @@ describe('ApiService', () => {
       expect((apiService as any).token).toBe('test-access-token');
       expect((apiService as any).refreshToken).toBe('test-refresh-token');
     });
+
+    it('should persist the tokens under the organisation key', async () => {
+      const store = new MemoryTokenStore();
+      apiService.setTokenStore(store);
+      apiService.setOrganisationId('org-1');
+      jest.spyOn(apiService as any, 'getApi').mockReturnValue({
+        clientAppLogin: jest.fn().mockResolvedValue({
+          data: { accessToken: 'test-access-token', refreshToken: 'test-refresh-token' },
+        }),
+      });
+
+      await apiService.setApiKey('test-api-key');
+
+      expect(await store.load(getTokenStoreKey('org-1'))).toEqual({
+        accessToken: 'test-access-token',
+        refreshToken: 'test-refresh-token',
+      });
+    });
+
+    it('should reuse stored tokens instead of logging in again', async () => {
+      const store = new MemoryTokenStore();
+      await store.save(getTokenStoreKey(), { accessToken: 'stored-access-token', refreshToken: 'stored-refresh-token' });
+      apiService.setTokenStore(store);
+      const mockAuthApi = { clientAppLogin: jest.fn() };
+      jest.spyOn(apiService as any, 'getApi').mockReturnValue(mockAuthApi);
+
+      await apiService.setApiKey('test-api-key', true);
+
+      expect(mockAuthApi.clientAppLogin).not.toHaveBeenCalled();
+      expect((apiService as any).token).toBe('stored-access-token');
+      expect((apiService as any).refreshToken).toBe('stored-refresh-token');
+    });
+  });
+
+  describe('retry interceptor', () => {
+    const getRetryHandler = () => {
+      const calls = (apiService as any).axiosInstance.interceptors.response.use.mock.calls;
+      return calls[calls.length - 1][1];
+    };
+
+    const failedRequest = (method: string, status?: number, headers: Record<string, string> = {}) => ({
+      config: { method, headers: { Client: 'TowncryerCoreSDK', ...headers } },
+      response: status ? { status, headers: {} } : undefined,
+      isAxiosError: true,
+    });
+
+    beforeEach(() => {
+      apiService.setRetryPolicy({ baseDelay: 0, jitter: false });
+    });
+
+    it('should retry idempotent requests on retryable status codes', async () => {
+      const handler = getRetryHandler();
+      const resend = jest.fn().mockResolvedValue({ data: 'ok' });
+      (apiService as any).axiosInstance = resend;
+
+      const error = failedRequest('get', 503);
+      await expect(handler(error)).resolves.toEqual({ data: 'ok' });
+
+      expect(resend).toHaveBeenCalledWith(expect.objectContaining({ _retryCount: 1 }));
+    });
+
+    it('should not retry POST requests without an idempotency key', async () => {
+      const handler = getRetryHandler();
+      const error = failedRequest('post', 503);
+
+      await expect(handler(error)).rejects.toBe(error);
+    });
+
+    it('should retry POST requests that carry an idempotency key', async () => {
+      const handler = getRetryHandler();
+      const resend = jest.fn().mockResolvedValue({ data: 'ok' });
+      (apiService as any).axiosInstance = resend;
+
+      await expect(handler(failedRequest('post', 502, { 'Idempotency-Key': 'key-1' }))).resolves.toEqual({ data: 'ok' });
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      const handler = getRetryHandler();
+      const error = failedRequest('get', 503);
+      (error.config as any)._retryCount = 2;
+
+      await expect(handler(error)).rejects.toBe(error);
+    });
+
+    it('should not retry when retries are disabled', async () => {
+      apiService.setRetryPolicy(false);
+      const handler = getRetryHandler();
+      const error = failedRequest('get', 503);
+
+      await expect(handler(error)).rejects.toBe(error);
+    });
   });
 
   describe('refreshShortLivedToken', () => {
@@ -234,4 +367,161 @@ describe('ApiService', () => {
       expect(setRefreshTokenSpy).toHaveBeenCalledWith('new-refresh-token');
     });
   });
+
+  describe('auth lifecycle', () => {
+    const jwtExpiringIn = (ms: number) => {
+      const payload = Buffer.from(JSON.stringify({ exp: Math.floor((Date.now() + ms) / 1000) })).toString('base64url');
+      return `header.${payload}.signature`;
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should refresh the token shortly before it expires', async () => {
+      jest.useFakeTimers();
+      const refreshSpy = jest.spyOn(apiService, 'refreshTokens').mockResolvedValue('new-token');
+
+      apiService.setRefreshLeeway(60000);
+      apiService.setRefreshToken('refresh-token');
+      apiService.setToken(jwtExpiringIn(120000));
+
+      jest.advanceTimersByTime(59000);
+      expect(refreshSpy).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(2000);
+      expect(refreshSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not schedule a refresh when proactive refresh is disabled', () => {
+      jest.useFakeTimers();
+      const refreshSpy = jest.spyOn(apiService, 'refreshTokens').mockResolvedValue('new-token');
+
+      apiService.setRefreshLeeway(false);
+      apiService.setRefreshToken('refresh-token');
+      apiService.setToken(jwtExpiringIn(1000));
+
+      jest.advanceTimersByTime(5000);
+      expect(refreshSpy).not.toHaveBeenCalled();
+    });
+
+    it('should emit tokenRefreshed with the new tokens', async () => {
+      const mockAuthApi = {
+        refreshShortLivedToken: jest.fn().mockResolvedValue({
+          data: { accessToken: 'new-access-token', refreshToken: 'new-refresh-token' },
+        }),
+      };
+      jest.spyOn(apiService as any, 'getApi').mockReturnValue(mockAuthApi);
+      const listener = jest.fn();
+      apiService.on('tokenRefreshed', listener);
+
+      apiService.setRefreshToken('test-refresh-token');
+      await apiService.refreshTokens();
+
+      expect(listener).toHaveBeenCalledWith({
+        accessToken: 'new-access-token',
+        refreshToken: 'new-refresh-token',
+        expiresAt: undefined,
+      });
+    });
+
+    it('should emit refreshFailed and unauthenticated when the refresh token is rejected', async () => {
+      const mockAuthApi = {
+        refreshShortLivedToken: jest.fn().mockRejectedValue({
+          isAxiosError: true,
+          message: 'Unauthorized',
+          response: { status: 401, data: {} },
+        }),
+      };
+      jest.spyOn(apiService as any, 'getApi').mockReturnValue(mockAuthApi);
+      const refreshFailed = jest.fn();
+      const unauthenticated = jest.fn();
+      apiService.on('refreshFailed', refreshFailed);
+      apiService.on('unauthenticated', unauthenticated);
+
+      apiService.setRefreshToken('expired-refresh-token');
+      await expect(apiService.refreshTokens()).rejects.toBeInstanceOf(AuthenticationError);
+
+      expect(refreshFailed).toHaveBeenCalledWith({ error: expect.any(AuthenticationError) });
+      expect(unauthenticated).toHaveBeenCalledWith({ error: expect.any(AuthenticationError) });
+    });
+
+    it('should forget a rejected session and log in again with the API key', async () => {
+      const store = new MemoryTokenStore();
+      await store.save(getTokenStoreKey(), { accessToken: 'revoked-access-token', refreshToken: 'revoked-refresh-token' });
+      apiService.setTokenStore(store);
+      const mockAuthApi = {
+        clientAppLogin: jest.fn().mockResolvedValue({
+          data: { accessToken: 'new-access-token', refreshToken: 'new-refresh-token' },
+        }),
+        refreshClientAppToken: jest.fn().mockRejectedValue({
+          isAxiosError: true,
+          message: 'Unauthorized',
+          response: { status: 401, data: {} },
+        }),
+      };
+      jest.spyOn(apiService as any, 'getApi').mockReturnValue(mockAuthApi);
+      const unauthenticated = jest.fn();
+      apiService.on('unauthenticated', unauthenticated);
+
+      await apiService.setApiKey('test-api-key', true);
+      expect(mockAuthApi.clientAppLogin).not.toHaveBeenCalled();
+
+      await expect(apiService.refreshTokens()).resolves.toBe('new-access-token');
+
+      expect(mockAuthApi.clientAppLogin).toHaveBeenCalledWith({ apiKey: 'test-api-key' });
+      expect(unauthenticated).not.toHaveBeenCalled();
+      expect(await store.load(getTokenStoreKey())).toEqual({
+        accessToken: 'new-access-token',
+        refreshToken: 'new-refresh-token',
+      });
+    });
+
+    it('should clear the stored session when it is rejected without an API key', async () => {
+      const store = new MemoryTokenStore();
+      await store.save(getTokenStoreKey(), { accessToken: 'revoked-access-token', refreshToken: 'revoked-refresh-token' });
+      apiService.setTokenStore(store);
+      jest.spyOn(apiService as any, 'getApi').mockReturnValue({
+        refreshShortLivedToken: jest.fn().mockRejectedValue({
+          isAxiosError: true,
+          message: 'Unauthorized',
+          response: { status: 401, data: {} },
+        }),
+      });
+
+      await apiService.restoreTokens();
+      await expect(apiService.refreshTokens()).rejects.toBeInstanceOf(AuthenticationError);
+
+      expect(await store.load(getTokenStoreKey())).toBeUndefined();
+    });
+
+    it('should settle when the refresh request itself returns 401', async () => {
+      // Every request is rejected, the refresh request included
+      const unauthorized = async (config: any) => Promise.reject(Object.assign(new Error('Unauthorized'), {
+        isAxiosError: true,
+        config,
+        response: { status: 401, data: {}, headers: {}, config },
+      }));
+      (AuthApi as unknown as jest.Mock).mockImplementation((_config, basePath: string, instance: AxiosInstance) => ({
+        refreshShortLivedToken: (request: object) => instance.post(`${basePath}/auth/refresh-token`, request),
+      }));
+      (EventsApi as unknown as jest.Mock).mockImplementationOnce((_config, basePath: string, instance: AxiosInstance) => ({
+        accept: (payload: object) => instance.post(`${basePath}/events`, payload),
+      }));
+      const service = new ApiService({ create: config => axios.create({ ...config, adapter: unauthorized }) });
+      service.setRetryPolicy(false);
+      const unauthenticated = jest.fn();
+      service.on('unauthenticated', unauthenticated);
+      service.setRefreshLeeway(false);
+      service.setRefreshToken('expired-refresh-token');
+
+      await expect(service.refreshTokens()).rejects.toBeInstanceOf(AuthenticationError);
+      expect(unauthenticated).toHaveBeenCalledTimes(1);
+
+      // Later 401s refresh again instead of waiting on a stuck refresh
+      const event = { name: 'test', customer: { externalId: 'customer-1' } };
+      await expect(service.getApi('event').accept(event)).rejects.toBeInstanceOf(AuthenticationError);
+      expect(unauthenticated).toHaveBeenCalledTimes(2);
+    });
+  });
 });
@@ -0,0 +1,37 @@
+import { CreateCustomerRequest } from '@towncryerio/towncryer-js-api-client';
+import ApiService from '../../src/services/api';
+import { TowncryerCustomerService } from '../../src/services/customerService';
+import { ServerError, ValidationError } from '../../src/utils/errors';
+
+const customer = {
+  externalId: 'user-1',
+  firstName: 'Ada',
+  identities: [{ type: 'email', value: 'ada@example.com', isPrimary: true }],
+  source: 'TowncryerAPI',
+} as CreateCustomerRequest;
+
+describe('TowncryerCustomerService', () => {
+  let customersApi: { createCustomer: jest.Mock };
+  let customerService: TowncryerCustomerService;
+
+  beforeEach(() => {
+    customersApi = { createCustomer: jest.fn().mockResolvedValue({ code: '200', message: 'ok' }) };
+    customerService = new TowncryerCustomerService({ getApi: () => customersApi } as unknown as ApiService);
+  });
+
+  it('should create a customer', async () => {
+    await expect(customerService.createCustomer(customer)).resolves.toEqual({ code: '200', message: 'ok' });
+    expect(customersApi.createCustomer).toHaveBeenCalledWith(customer);
+  });
+
+  it('should reject invalid customers before sending them', async () => {
+    await expect(customerService.createCustomer({ ...customer, identities: [] })).rejects.toBeInstanceOf(ValidationError);
+    expect(customersApi.createCustomer).not.toHaveBeenCalled();
+  });
+
+  it('should throw typed errors', async () => {
+    customersApi.createCustomer.mockRejectedValue({ isAxiosError: true, message: 'Down', response: { status: 500, data: {} } });
+
+    await expect(customerService.createCustomer(customer)).rejects.toBeInstanceOf(ServerError);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * @jest-environment node
+ */
+import { PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
+import ApiService from '../../src/services/api';
+import { BufferingEventService } from '../../src/services/eventBuffer';
+import { EventService } from '../../src/services/eventService';
+
+const event = (name: string): PublishEventPayload => ({
+  name,
+  customer: { externalId: 'customer-1' },
+});
+
+describe('BufferingEventService in Node', () => {
+  let eventService: jest.Mocked<EventService>;
+
+  beforeEach(() => {
+    eventService = {
+      publishEvent: jest.fn(async (payload: PublishEventPayload) => ({ code: '200', message: payload.name })),
+    };
+  });
+
+  it('should flush buffered events before the process exits', async () => {
+    const buffer = new BufferingEventService(eventService, {} as ApiService, { flushInterval: 60000 });
+    const published = buffer.publishEvent(event('last'));
+
+    process.emit('beforeExit', 0);
+
+    await expect(published).resolves.toEqual({ code: '200', message: 'last' });
+    expect(eventService.publishEvent).toHaveBeenCalledTimes(1);
+    await buffer.destroy();
+  });
+
+  it('should stop listening for exit once destroyed', async () => {
+    const listeners = process.listenerCount('beforeExit');
+    const buffer = new BufferingEventService(eventService, {} as ApiService);
+    expect(process.listenerCount('beforeExit')).toBe(listeners + 1);
+
+    await buffer.destroy();
+
+    expect(process.listenerCount('beforeExit')).toBe(listeners);
+  });
+});
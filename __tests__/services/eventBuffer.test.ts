@@ -0,0 +1,121 @@
+import { PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
+import ApiService from '../../src/services/api';
+import { BufferingEventService } from '../../src/services/eventBuffer';
+import { EventService } from '../../src/services/eventService';
+import { TowncryerError } from '../../src/utils/errors';
+
+const event = (name: string): PublishEventPayload => ({
+  name,
+  customer: { externalId: 'customer-1' },
+});
+
+const mockApiService = {
+  getBaseUrl: jest.fn(() => 'https://api.towncryer.io/api/v1'),
+  getRequestHeaders: jest.fn(() => ({ Authorization: 'Bearer token' })),
+} as unknown as ApiService;
+
+describe('BufferingEventService', () => {
+  let eventService: jest.Mocked<EventService>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    eventService = {
+      publishEvent: jest.fn(async (payload: PublishEventPayload) => ({ code: '200', message: payload.name })),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should flush once the buffer size is reached', async () => {
+    const buffer = new BufferingEventService(eventService, mockApiService, { maxBufferSize: 2 });
+
+    const first = buffer.publishEvent(event('first'));
+    expect(eventService.publishEvent).not.toHaveBeenCalled();
+
+    const second = buffer.publishEvent(event('second'));
+
+    await expect(first).resolves.toEqual({ code: '200', message: 'first' });
+    await expect(second).resolves.toEqual({ code: '200', message: 'second' });
+    expect(eventService.publishEvent).toHaveBeenCalledTimes(2);
+    await buffer.destroy();
+  });
+
+  it('should flush a partial buffer after the interval', async () => {
+    const buffer = new BufferingEventService(eventService, mockApiService, { flushInterval: 1000 });
+
+    const pending = buffer.publishEvent(event('lonely'));
+    expect(buffer.size).toBe(1);
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(pending).resolves.toEqual({ code: '200', message: 'lonely' });
+    expect(buffer.size).toBe(0);
+    await buffer.destroy();
+  });
+
+  it('should flush before the byte limit would be exceeded', async () => {
+    const bytes = JSON.stringify(event('sized')).length;
+    const buffer = new BufferingEventService(eventService, mockApiService, { maxBufferBytes: bytes * 1.5 });
+
+    buffer.publishEvent(event('sized'));
+    buffer.publishEvent(event('sized'));
+
+    expect(eventService.publishEvent).toHaveBeenCalledTimes(1);
+    expect(buffer.size).toBe(1);
+    await buffer.destroy();
+  });
+
+  it('should report failures per event', async () => {
+    eventService.publishEvent.mockRejectedValueOnce(new Error('boom'));
+    const buffer = new BufferingEventService(eventService, mockApiService);
+
+    const failed = buffer.publishEvent(event('failed'), { idempotencyKey: 'failed-key' });
+    const succeeded = buffer.publishEvent(event('succeeded'));
+    await buffer.flush();
+
+    await expect(failed).rejects.toBeInstanceOf(TowncryerError);
+    await expect(failed).rejects.toMatchObject({ idempotencyKey: 'failed-key' });
+    await expect(succeeded).resolves.toEqual({ code: '200', message: 'succeeded' });
+    await buffer.destroy();
+  });
+
+  it('should send buffered events with keepalive requests when the page is hidden', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 202 });
+    (globalThis as any).fetch = fetchMock;
+    const buffer = new BufferingEventService(eventService, mockApiService);
+
+    const pending = buffer.publishEvent(event('unload'));
+    window.dispatchEvent(new Event('pagehide'));
+
+    await expect(pending).resolves.toEqual(expect.objectContaining({ code: '202' }));
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.towncryer.io/api/v1/events',
+      expect.objectContaining({ keepalive: true, body: JSON.stringify(event('unload')) })
+    );
+    expect(eventService.publishEvent).not.toHaveBeenCalled();
+
+    delete (globalThis as any).fetch;
+    await buffer.destroy();
+  });
+
+  it('should send events through the wrapped service when the keepalive request fails', async () => {
+    (globalThis as any).fetch = jest.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce({ ok: false, status: 401 });
+    const buffer = new BufferingEventService(eventService, mockApiService);
+
+    const offline = buffer.publishEvent(event('offline'));
+    const rejected = buffer.publishEvent(event('rejected'));
+    window.dispatchEvent(new Event('pagehide'));
+    await buffer.flush();
+
+    await expect(offline).resolves.toEqual({ code: '200', message: 'offline' });
+    await expect(rejected).resolves.toEqual({ code: '200', message: 'rejected' });
+    expect(eventService.publishEvent).toHaveBeenCalledTimes(2);
+
+    delete (globalThis as any).fetch;
+    await buffer.destroy();
+  });
+});
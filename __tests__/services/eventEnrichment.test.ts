@@ -0,0 +1,99 @@
+import { PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
+import { EnrichingEventService, sessionEnricher } from '../../src/services/eventEnrichment';
+import { EventService } from '../../src/services/eventService';
+import { SDK_VERSION } from '../../src/version';
+import packageJson from '../../package.json';
+
+const event = (data?: object): PublishEventPayload => ({
+  name: 'page.viewed',
+  customer: { externalId: 'customer-1' },
+  data,
+});
+
+describe('EnrichingEventService', () => {
+  let eventService: jest.Mocked<EventService>;
+
+  beforeEach(() => {
+    sessionStorage.clear();
+    eventService = {
+      publishEvent: jest.fn().mockResolvedValue({ code: '200', message: 'ok' }),
+    };
+  });
+
+  it('should add the built-in context to published events', async () => {
+    window.history.pushState({}, '', '/pricing?utm_source=newsletter&utm_campaign=launch');
+    const enricher = new EnrichingEventService(eventService);
+
+    await enricher.publishEvent(event({ plan: 'pro' }), { idempotencyKey: 'key' });
+
+    const [published, options] = eventService.publishEvent.mock.calls[0];
+    expect(options).toEqual({ idempotencyKey: 'key' });
+    expect(published.data).toEqual({
+      plan: 'pro',
+      context: expect.objectContaining({
+        library: { name: '@towncryerio/towncryer-js-sdk', version: SDK_VERSION },
+        timestamp: expect.any(String),
+        timezone: expect.any(String),
+        sessionId: expect.any(String),
+        page: expect.objectContaining({ path: '/pricing' }),
+        campaign: { source: 'newsletter', campaign: 'launch' },
+        runtime: expect.objectContaining({ name: 'browser' }),
+      }),
+    });
+  });
+
+  it('should leave out disabled enrichers and let callers override context', () => {
+    const enricher = new EnrichingEventService(eventService, { disable: ['page', 'runtime'] });
+
+    const enriched = enricher.enrich(event({ context: { locale: 'fr-FR' } }));
+
+    expect(enriched.data).toEqual({ context: expect.objectContaining({ locale: 'fr-FR' }) });
+    expect(enriched.data).not.toHaveProperty('context.page');
+    expect(enriched.data).not.toHaveProperty('context.runtime');
+  });
+
+  it('should run custom enrichers and skip failing ones', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const enricher = new EnrichingEventService(eventService, {
+      enrichers: [
+        { name: 'app', enrich: () => ({ app: { version: '2.0.0' } }) },
+        { name: 'broken', enrich: () => { throw new Error('boom'); } },
+      ],
+    });
+
+    expect(enricher.enrich(event()).data).toHaveProperty('context.app', { version: '2.0.0' });
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should replace an enricher registered under the same name', () => {
+    const enricher = new EnrichingEventService(eventService);
+
+    enricher.addEnricher({ name: 'sdk', enrich: () => ({ library: { name: 'wrapper' } }) });
+
+    expect(enricher.enricherNames.filter(name => name === 'sdk')).toHaveLength(1);
+    expect(enricher.enrich(event()).data).toHaveProperty('context.library', { name: 'wrapper' });
+  });
+});
+
+describe('sessionEnricher', () => {
+  it('should start a new session after the inactivity timeout', () => {
+    jest.useFakeTimers();
+    sessionStorage.clear();
+    const session = sessionEnricher(1000);
+
+    const first = session.enrich(event());
+    jest.advanceTimersByTime(500);
+    expect(session.enrich(event())).toEqual(first);
+
+    jest.advanceTimersByTime(1500);
+    expect(session.enrich(event())).not.toEqual(first);
+    jest.useRealTimers();
+  });
+});
+
+describe('SDK_VERSION', () => {
+  it('should match the package version', () => {
+    expect(SDK_VERSION).toBe(packageJson.version);
+  });
+});
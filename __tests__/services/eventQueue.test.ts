@@ -0,0 +1,203 @@
+import { PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
+import {
+  FileEventQueueStore,
+  FileSystemLike,
+  MemoryEventQueueStore,
+  PersistentEventQueue,
+  QueuedEvent,
+} from '../../src/services/eventQueue';
+
+const event = (name: string): PublishEventPayload => ({
+  name,
+  customer: { externalId: 'customer-1' },
+});
+
+const networkError = () => Object.assign(new Error('Network Error'), { isAxiosError: true });
+const httpError = (status: number) => Object.assign(new Error(`Request failed with status code ${status}`), {
+  isAxiosError: true,
+  response: { status },
+});
+
+describe('PersistentEventQueue', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should replay queued events in order', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const queue = new PersistentEventQueue(send, { store: new MemoryEventQueueStore() });
+
+    await queue.enqueue(event('first'));
+    await queue.enqueue(event('second'));
+    expect(queue.length).toBe(2);
+
+    await queue.flush();
+
+    expect(send.mock.calls.map(([payload]) => payload.name)).toEqual(['first', 'second']);
+    expect(queue.length).toBe(0);
+    queue.destroy();
+  });
+
+  it('should stop at the first retryable failure to preserve order', async () => {
+    const send = jest.fn()
+      .mockRejectedValueOnce(networkError())
+      .mockResolvedValue({});
+    const queue = new PersistentEventQueue(send, { store: new MemoryEventQueueStore() });
+
+    await queue.enqueue(event('first'));
+    await queue.enqueue(event('second'));
+    await queue.flush();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(queue.length).toBe(2);
+
+    await queue.flush();
+
+    expect(send.mock.calls.map(([payload]) => payload.name)).toEqual(['first', 'first', 'second']);
+    expect(queue.length).toBe(0);
+    queue.destroy();
+  });
+
+  it('should send the same idempotency key on every attempt', async () => {
+    const send = jest.fn()
+      .mockRejectedValueOnce(networkError())
+      .mockResolvedValue({});
+    const queue = new PersistentEventQueue(send, { store: new MemoryEventQueueStore() });
+
+    await queue.enqueue(event('first'), 'stable-key');
+    await queue.flush();
+    await queue.flush();
+
+    expect(send.mock.calls.map(([, key]) => key)).toEqual(['stable-key', 'stable-key']);
+    queue.destroy();
+  });
+
+  it('should drop events the API rejects and report them', async () => {
+    const onDrop = jest.fn();
+    const send = jest.fn()
+      .mockRejectedValueOnce(httpError(400))
+      .mockResolvedValue({});
+    const queue = new PersistentEventQueue(send, { store: new MemoryEventQueueStore(), onDrop });
+
+    await queue.enqueue(event('invalid'));
+    await queue.enqueue(event('valid'));
+    await queue.flush();
+
+    expect(onDrop).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: event('invalid') }),
+      'rejected',
+      expect.any(Error)
+    );
+    expect(queue.length).toBe(0);
+    queue.destroy();
+  });
+
+  it('should drop events after the maximum number of attempts', async () => {
+    const onDrop = jest.fn();
+    const send = jest.fn().mockRejectedValue(httpError(503));
+    const queue = new PersistentEventQueue(send, { store: new MemoryEventQueueStore(), maxAttempts: 2, onDrop });
+
+    await queue.enqueue(event('doomed'));
+    await queue.flush();
+    await queue.flush();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(onDrop).toHaveBeenCalledWith(expect.objectContaining({ attempts: 2 }), 'max_attempts', expect.any(Error));
+    expect(queue.length).toBe(0);
+    queue.destroy();
+  });
+
+  it('should evict the oldest event when full', async () => {
+    const onDrop = jest.fn();
+    const queue = new PersistentEventQueue(jest.fn(), { store: new MemoryEventQueueStore(), maxSize: 1, onDrop });
+
+    await queue.enqueue(event('old'));
+    await queue.enqueue(event('new'));
+
+    expect(queue.length).toBe(1);
+    expect(onDrop).toHaveBeenCalledWith(expect.objectContaining({ payload: event('old') }), 'overflow', undefined);
+    queue.destroy();
+  });
+
+  it('should restore persisted events from the store', async () => {
+    const store = new MemoryEventQueueStore();
+    const persisted: QueuedEvent = {
+      id: 'queued-1',
+      payload: event('persisted'),
+      idempotencyKey: 'key-1',
+      attempts: 1,
+      enqueuedAt: 0,
+    };
+    await store.save([persisted]);
+
+    const send = jest.fn().mockResolvedValue({});
+    const queue = new PersistentEventQueue(send, { store });
+    await queue.flush();
+
+    expect(send).toHaveBeenCalledWith(persisted.payload, 'key-1');
+    expect(await store.load()).toEqual([]);
+    queue.destroy();
+  });
+
+  it('should wait for login before replaying and keep events a 401 rejects', async () => {
+    const store = new MemoryEventQueueStore();
+    await store.save([{ id: 'queued-1', payload: event('persisted'), idempotencyKey: 'key-1', attempts: 0, enqueuedAt: 0 }]);
+    let login!: () => void;
+    const authenticated = new Promise<void>(resolve => {
+      login = resolve;
+    });
+    const onDrop = jest.fn();
+    const send = jest.fn()
+      .mockRejectedValueOnce(httpError(401))
+      .mockResolvedValue({});
+    const queue = new PersistentEventQueue(send, { store, onDrop }, () => authenticated);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(send).not.toHaveBeenCalled();
+
+    login();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(queue.length).toBe(1);
+
+    await queue.flush();
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(queue.length).toBe(0);
+    expect(onDrop).not.toHaveBeenCalled();
+    queue.destroy();
+  });
+
+  it('should try again later when login fails', async () => {
+    const authenticated = jest.fn()
+      .mockRejectedValueOnce(new Error('Login failed'))
+      .mockResolvedValue(undefined);
+    const send = jest.fn().mockResolvedValue({});
+    const queue = new PersistentEventQueue(send, { store: new MemoryEventQueueStore(), retryInterval: 1000 }, authenticated);
+
+    await queue.enqueue(event('first'));
+    await queue.flush();
+    expect(send).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(queue.length).toBe(0);
+    queue.destroy();
+  });
+});
+
+describe('FileEventQueueStore', () => {
+  it('should treat a missing file as an empty queue', async () => {
+    const fs: FileSystemLike = {
+      readFile: jest.fn().mockRejectedValue(Object.assign(new Error('not found'), { code: 'ENOENT' })),
+      writeFile: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const store = new FileEventQueueStore('/tmp/events.json', fs);
+
+    expect(await store.load()).toEqual([]);
+  });
+});
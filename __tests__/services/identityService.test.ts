@@ -0,0 +1,61 @@
+import { TowncryerIdentityService } from '../../src/services/identityService';
+import { BuiltInEventName } from '../../src/events';
+import { EventService } from '../../src/services/eventService';
+import { ValidationError } from '../../src/utils/errors';
+
+describe('TowncryerIdentityService', () => {
+  let eventService: jest.Mocked<EventService>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    eventService = {
+      publishEvent: jest.fn().mockResolvedValue({ code: '200', message: 'ok' }),
+    };
+  });
+
+  it('should persist the anonymous id across instances', () => {
+    const { anonymousId } = new TowncryerIdentityService(eventService).getIdentity();
+
+    expect(anonymousId).toBeTruthy();
+    expect(new TowncryerIdentityService(eventService).getIdentity().anonymousId).toBe(anonymousId);
+  });
+
+  it('should keep identities of different organisations apart', () => {
+    const first = new TowncryerIdentityService(eventService, localStorage, 'org-a').getIdentity();
+    const second = new TowncryerIdentityService(eventService, localStorage, 'org-b').getIdentity();
+
+    expect(first.anonymousId).not.toBe(second.anonymousId);
+  });
+
+  it('should alias the anonymous id to the identified customer', async () => {
+    const identityService = new TowncryerIdentityService(eventService);
+    const { anonymousId } = identityService.getIdentity();
+
+    await identityService.identify('user-1', { email: 'ada@example.com', plan: 'pro' });
+
+    expect(eventService.publishEvent).toHaveBeenCalledWith({
+      name: BuiltInEventName.CustomerAlias,
+      customer: expect.objectContaining({ externalId: 'user-1', email: 'ada@example.com' }),
+      data: expect.objectContaining({ anonymousId, traits: { plan: 'pro' } }),
+    });
+    expect(identityService.getDistinctId()).toBe('user-1');
+  });
+
+  it('should reject an empty customer id', async () => {
+    const identityService = new TowncryerIdentityService(eventService);
+
+    await expect(identityService.identify('')).rejects.toBeInstanceOf(ValidationError);
+    expect(eventService.publishEvent).not.toHaveBeenCalled();
+  });
+
+  it('should start over with a new anonymous id on reset', async () => {
+    const identityService = new TowncryerIdentityService(eventService);
+    const { anonymousId } = identityService.getIdentity();
+    await identityService.identify('user-1');
+
+    identityService.reset();
+
+    expect(identityService.getIdentity().customerId).toBeUndefined();
+    expect(identityService.getDistinctId()).not.toBe(anonymousId);
+  });
+});
@@ -0,0 +1,124 @@
+import { Inbox } from '../../src/services/inbox';
+import { NotificationCache } from '../../src/services/notificationCache';
+import { PushNotificationService } from '../../src/services/pushNotificationService';
+import { PushNotification } from '../../src/types';
+import { NotFoundError } from '../../src/utils/errors';
+
+class MemoryStorage {
+  private values = new Map<string, string>();
+  getItem(key: string) { return this.values.get(key) ?? null; }
+  setItem(key: string, value: string) { this.values.set(key, value); }
+  removeItem(key: string) { this.values.delete(key); }
+}
+
+const notification = (id: string, timestamp: number, read = false): PushNotification =>
+  ({ id, title: `Title ${id}`, body: `Body ${id}`, timestamp, read });
+
+const historyItem = (id: string, createdAt: string, read = false) =>
+  ({ id, title: `Title ${id}`, content: `Body ${id}`, createdAt, read });
+
+describe('Inbox', () => {
+  let listeners: Array<(notification: PushNotification) => void>;
+  let pushService: jest.Mocked<Pick<PushNotificationService,
+    'getMessageHistory' | 'markRead' | 'markManyRead' | 'onNotification'>>;
+  let cache: NotificationCache;
+
+  const createInbox = () => new Inbox(pushService as unknown as PushNotificationService, cache, { pageSize: 2 });
+  const ids = (inbox: Inbox) => inbox.state.notifications.map(({ id }) => id);
+
+  beforeEach(() => {
+    listeners = [];
+    pushService = {
+      getMessageHistory: jest.fn(),
+      markRead: jest.fn().mockResolvedValue(undefined),
+      markManyRead: jest.fn(),
+      onNotification: jest.fn().mockImplementation(listener => {
+        listeners.push(listener);
+        return () => listeners.splice(listeners.indexOf(listener), 1);
+      }),
+    };
+    cache = new NotificationCache('customer-1', new MemoryStorage());
+  });
+
+  it('should merge server history with cached and received notifications, de-duplicated by id', async () => {
+    cache.save([notification('local', Date.parse('2030-01-03'))]);
+    pushService.getMessageHistory.mockResolvedValue({
+      items: [historyItem('a', '2030-01-02T00:00:00Z'), historyItem('local', '2030-01-03T00:00:00Z', true)],
+      last: false,
+    });
+    const inbox = createInbox();
+
+    await inbox.loadMore();
+    listeners.forEach(listener => listener(notification('pushed', Date.parse('2030-01-04'))));
+
+    expect(ids(inbox)).toEqual(['pushed', 'local', 'a']);
+    expect(inbox.state.unreadCount).toBe(2);
+    expect(cache.load().map(({ id }) => id)).toEqual(['pushed', 'local', 'a']);
+  });
+
+  it('should page through history until the last page', async () => {
+    pushService.getMessageHistory
+      .mockResolvedValueOnce({ items: [historyItem('b', '2030-01-02'), historyItem('a', '2030-01-01')], last: false })
+      .mockResolvedValueOnce({ items: [historyItem('c', '2029-12-31')], last: true });
+    const inbox = createInbox();
+
+    await Promise.all([inbox.loadMore(), inbox.loadMore()]);
+    await inbox.loadMore();
+    await inbox.loadMore();
+
+    expect(pushService.getMessageHistory.mock.calls).toEqual([[0, 2], [1, 2]]);
+    expect(ids(inbox)).toEqual(['b', 'a', 'c']);
+    expect(inbox.state).toMatchObject({ hasMore: false, loading: false });
+  });
+
+  it('should update optimistically and emit changes', async () => {
+    cache.save([notification('a', 2), notification('b', 1)]);
+    const inbox = createInbox();
+    const changes: number[] = [];
+    inbox.on('change', state => changes.push(state.unreadCount));
+
+    const marking = inbox.markRead('a');
+    expect(inbox.state.unreadCount).toBe(1);
+    await marking;
+    await inbox.markRead('b');
+    await inbox.markRead('b');
+
+    expect(changes).toEqual([1, 0]);
+    expect(pushService.markRead.mock.calls).toEqual([['a'], ['b']]);
+  });
+
+  it('should roll back an update the API rejects', async () => {
+    cache.save([notification('a', 1)]);
+    pushService.markRead.mockRejectedValue(new NotFoundError('Not found'));
+    const inbox = createInbox();
+    const errors = jest.fn();
+    inbox.on('error', errors);
+
+    await expect(inbox.markRead('a')).rejects.toBeInstanceOf(NotFoundError);
+
+    expect(inbox.state.unreadCount).toBe(1);
+    expect(errors).toHaveBeenCalledWith({ error: expect.any(NotFoundError), notificationIds: ['a'] });
+  });
+
+  it('should mark all read and roll back only the failures', async () => {
+    cache.save([notification('a', 3), notification('b', 2), notification('c', 1, true)]);
+    pushService.markManyRead.mockResolvedValue({
+      succeeded: ['a'],
+      failed: [{ notificationId: 'b', error: new NotFoundError('Not found') }],
+    });
+    const inbox = createInbox();
+
+    await expect(inbox.markAllRead()).rejects.toThrow('Failed to mark 1 of 2 notifications as read');
+
+    expect(pushService.markManyRead).toHaveBeenCalledWith(['a', 'b']);
+    expect(inbox.state.notifications.map(({ id, read }) => [id, read])).toEqual([['a', true], ['b', false], ['c', true]]);
+  });
+
+  it('should stop listening once disposed', () => {
+    const inbox = createInbox();
+
+    inbox.dispose();
+
+    expect(listeners).toHaveLength(0);
+  });
+});
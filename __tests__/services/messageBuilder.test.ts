@@ -0,0 +1,99 @@
+import { MessageBuilder, MessageSender } from '../../src/services/messageBuilder';
+import { ValidationError } from '../../src/utils/errors';
+
+const from = { email: 'news@example.com', name: 'News' };
+
+describe('MessageBuilder', () => {
+  let sender: { sendMessages: jest.Mock };
+
+  beforeEach(() => {
+    sender = {
+      sendMessages: jest.fn().mockImplementation((_, options) => Promise.resolve({ jobId: 'job', ...options })),
+    };
+  });
+
+  const builder = (chunkSize?: number) => new MessageBuilder(sender as MessageSender, { chunkSize });
+
+  it('should route each channel to the recipients that have an address for it', () => {
+    const payloads = builder()
+      .email({ from, title: 'Hello', content: '<p>Hi</p>' })
+      .sms({ from: 'Example', content: 'Hi' })
+      .push({ title: 'Hello', templateId: 'hello-push' })
+      .to([
+        { email: 'ada@example.com', name: 'Ada', phoneNumber: '+447700900123' },
+        { pushToken: 'token-1' },
+      ])
+      .build();
+
+    expect(payloads).toEqual([{
+      emails: [{ from, title: 'Hello', content: '<p>Hi</p>', recipients: [{ email: 'ada@example.com', name: 'Ada' }] }],
+      smses: [{ from: 'Example', content: 'Hi', to: [{ phoneNumber: '+447700900123' }] }],
+      pushNotifications: [{ title: 'Hello', templateId: 'hello-push', recipients: [{ token: 'token-1' }] }],
+    }]);
+  });
+
+  it('should remove duplicate recipients per channel', () => {
+    const [payload] = builder()
+      .email({ from, title: 'Hello', content: 'Hi' })
+      .to({ email: 'Ada@Example.com', name: 'Ada' })
+      .to([{ email: 'ada@example.com ' }, { email: 'grace@example.com' }])
+      .build();
+
+    expect(payload.emails![0].recipients).toEqual([
+      { email: 'Ada@Example.com', name: 'Ada' },
+      { email: 'grace@example.com', name: '' },
+    ]);
+  });
+
+  it('should send each recipient\'s template variables', () => {
+    const [payload] = builder()
+      .push({ title: 'Your order', templateId: 'order-update' })
+      .to({ pushToken: 'token-1', variables: { orderId: 'A-1001' } })
+      .build();
+
+    expect(payload.pushNotifications![0].recipients).toEqual([{ token: 'token-1', context: { orderId: 'A-1001' } }]);
+  });
+
+  it('should split large recipient lists into several requests with derived idempotency keys', async () => {
+    const recipients = [1, 2, 3, 4, 5].map(n => ({ phoneNumber: `+4477009001${n}0` }));
+
+    const results = await builder(2)
+      .sms({ from: 'Example', content: 'Hi' })
+      .to(recipients)
+      .idempotencyKey('campaign')
+      .send();
+
+    expect(results).toHaveLength(3);
+    expect(sender.sendMessages.mock.calls.map(([payload]) => payload.smses[0].to.length)).toEqual([2, 2, 1]);
+    expect(sender.sendMessages.mock.calls.map(([, options]) => options.idempotencyKey))
+      .toEqual(['campaign-0', 'campaign-1', 'campaign-2']);
+  });
+
+  it('should validate channel requirements before sending anything', async () => {
+    const message = builder(1)
+      .email({ from: { email: '', name: 'News' }, title: '' })
+      .sms({ from: 'Example', content: 'Hi' })
+      .to([{ email: 'ada@example.com' }, { phoneNumber: '+447700900123' }, { phoneNumber: '07700 900124' }]);
+
+    const error = await message.send().catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.fieldErrors.map((fieldError: { field: string }) => fieldError.field))
+      .toEqual(['email.from.email', 'email.title']);
+    expect(sender.sendMessages).not.toHaveBeenCalled();
+  });
+
+  it('should validate every request before sending the first', async () => {
+    const message = builder(1)
+      .sms({ from: 'Example', content: 'Hi' })
+      .to([{ phoneNumber: '+447700900123' }, { phoneNumber: '07700 900124' }]);
+
+    await expect(message.send()).rejects.toThrow('Invalid message (request 2 of 2)');
+    expect(sender.sendMessages).not.toHaveBeenCalled();
+  });
+
+  it('should reject a channel without reachable recipients', () => {
+    expect(() => builder().push({ content: 'Hi' }).to({ email: 'ada@example.com' }).build())
+      .toThrow('push.recipients must include at least one recipient with a push token');
+  });
+});
@@ -0,0 +1,39 @@
+import ApiService from '../../src/services/api';
+import { TowncryerMessageService } from '../../src/services/messageService';
+import { ServerError, ValidationError } from '../../src/utils/errors';
+
+const messages = {
+  smses: [{ from: 'Towncryer', to: [{ phoneNumber: '+447700900123' }], content: 'Hello' }],
+};
+
+describe('TowncryerMessageService', () => {
+  let messagesApi: { sendMessage: jest.Mock };
+  let messageService: TowncryerMessageService;
+
+  beforeEach(() => {
+    messagesApi = { sendMessage: jest.fn().mockResolvedValue({ data: { jobId: 'job-1', status: 0 } }) };
+    messageService = new TowncryerMessageService({ getApi: () => messagesApi } as unknown as ApiService);
+  });
+
+  it('should send messages with an idempotency key', async () => {
+    const result = await messageService.sendMessages(messages, { idempotencyKey: 'key-1' });
+
+    expect(result).toEqual({ jobId: 'job-1', status: 0, idempotencyKey: 'key-1' });
+    expect(messagesApi.sendMessage).toHaveBeenCalledWith(messages, { headers: { 'Idempotency-Key': 'key-1' } });
+  });
+
+  it('should reject invalid messages without calling the API', async () => {
+    await expect(messageService.sendMessages({ smses: [{ from: 'Towncryer', to: [], content: 'Hello' }] }))
+      .rejects.toBeInstanceOf(ValidationError);
+    expect(messagesApi.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should keep the idempotency key on failures', async () => {
+    messagesApi.sendMessage.mockRejectedValue({ isAxiosError: true, message: 'Down', response: { status: 503, data: {} } });
+
+    const sending = messageService.sendMessages(messages, { idempotencyKey: 'key-2' });
+
+    await expect(sending).rejects.toBeInstanceOf(ServerError);
+    await expect(sending).rejects.toMatchObject({ idempotencyKey: 'key-2' });
+  });
+});
@@ -0,0 +1,93 @@
+import { PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
+import { EventService } from '../../src/services/eventService';
+import { MiddlewareEventService, MiddlewarePipeline } from '../../src/services/middleware';
+import { TowncryerError } from '../../src/utils/errors';
+
+const event = (name: string, email?: string): PublishEventPayload => ({
+  name,
+  customer: { externalId: 'customer-1', email },
+});
+
+describe('MiddlewareEventService', () => {
+  let eventService: jest.Mocked<EventService>;
+  let pipeline: MiddlewarePipeline;
+  let middlewareService: MiddlewareEventService;
+
+  beforeEach(() => {
+    eventService = {
+      publishEvent: jest.fn(async (payload: PublishEventPayload) => ({ code: '200', message: payload.name })),
+    };
+    pipeline = new MiddlewarePipeline();
+    middlewareService = new MiddlewareEventService(eventService, pipeline);
+  });
+
+  it('should run middleware in the order it was added, around the request', async () => {
+    const calls: string[] = [];
+    pipeline.use(async (_context, next) => {
+      calls.push('first:before');
+      const response = await next();
+      calls.push('first:after');
+      return response;
+    });
+    pipeline.use(async (_context, next) => {
+      calls.push('second:before');
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const response = await next();
+      calls.push('second:after');
+      return response;
+    });
+
+    await middlewareService.publishEvent(event('signup'));
+
+    expect(calls).toEqual(['first:before', 'second:before', 'second:after', 'first:after']);
+  });
+
+  it('should publish transformed payloads and responses', async () => {
+    pipeline.use((context, next) => {
+      if (context.kind === 'event') {
+        context.payload = { ...context.payload, name: 'customer.signed_up' };
+      }
+      return next();
+    });
+    pipeline.use(async (_context, next) => ({ ...(await next()), message: 'observed' }));
+
+    const response = await middlewareService.publishEvent(event('signup'), { idempotencyKey: 'key' });
+
+    expect(eventService.publishEvent).toHaveBeenCalledWith(event('customer.signed_up'), { idempotencyKey: 'key' });
+    expect(response).toEqual({ code: '200', message: 'observed' });
+  });
+
+  it('should drop events when middleware does not call next', async () => {
+    pipeline.use((context, next) => {
+      if (context.kind === 'event' && context.payload.customer.email?.endsWith('@test.example')) {
+        return;
+      }
+      return next();
+    });
+
+    const response = await middlewareService.publishEvent(event('signup', 'qa@test.example'), { idempotencyKey: 'key' });
+
+    expect(response).toEqual({ code: '204', message: 'Event dropped by middleware', idempotencyKey: 'key' });
+    expect(eventService.publishEvent).not.toHaveBeenCalled();
+  });
+
+  it('should stop running middleware once removed', async () => {
+    const middleware = jest.fn((_context, next) => next());
+    const remove = pipeline.use(middleware);
+
+    remove();
+    await middlewareService.publishEvent(event('signup'));
+
+    expect(middleware).not.toHaveBeenCalled();
+    expect(pipeline.size).toBe(0);
+  });
+
+  it('should reject when next is called twice', async () => {
+    pipeline.use(async (_context, next) => {
+      await next();
+      return next();
+    });
+
+    await expect(middlewareService.publishEvent(event('signup'))).rejects.toBeInstanceOf(TowncryerError);
+  });
+});
@@ -0,0 +1,308 @@
+jest.mock('firebase/app', () => ({ initializeApp: jest.fn() }));
+jest.mock('firebase/messaging', () => ({
+  getMessaging: jest.fn(),
+  getToken: jest.fn(),
+  onMessage: jest.fn(),
+  isSupported: jest.fn(),
+}));
+jest.mock('firebase/messaging/sw', () => ({ getMessaging: jest.fn() }));
+
+import { getMessaging, isSupported, onMessage } from 'firebase/messaging';
+import ApiService from '../../src/services/api';
+import { EventService } from '../../src/services/eventService';
+import { FirebasePushNotificationService } from '../../src/services/pushNotificationService';
+import { FirebaseConfig } from '../../src/types';
+import { ServerError } from '../../src/utils/errors';
+
+describe('FirebasePushNotificationService', () => {
+  let messagesApi: {
+    markMessageAsRead: jest.Mock;
+    getCustomerMessagesStats: jest.Mock;
+    listMessagesByCustomerAndChannel: jest.Mock;
+  };
+  let publishEvent: jest.Mock;
+  let pushService: FirebasePushNotificationService;
+
+  beforeEach(() => {
+    messagesApi = {
+      markMessageAsRead: jest.fn().mockResolvedValue({ data: {} }),
+      getCustomerMessagesStats: jest.fn().mockResolvedValue({ data: { total: 40, read: 10 } }),
+      listMessagesByCustomerAndChannel: jest.fn(),
+    };
+    publishEvent = jest.fn().mockResolvedValue({ message: 'ok' });
+    const apiService = { getApi: () => messagesApi } as unknown as ApiService;
+    pushService = new FirebasePushNotificationService(
+      {} as FirebaseConfig,
+      { publishEvent } as unknown as EventService,
+      apiService,
+      'customer-1'
+    );
+  });
+
+  it('should limit how many notifications are marked at once', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    messagesApi.markMessageAsRead.mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+      return { data: {} };
+    });
+
+    const result = await pushService.markManyRead(['a', 'b', 'c', 'd', 'a'], { concurrency: 2 });
+
+    expect(result.succeeded.sort()).toEqual(['a', 'b', 'c', 'd']);
+    expect(messagesApi.markMessageAsRead).toHaveBeenCalledTimes(4);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should report failures without stopping the others', async () => {
+    messagesApi.markMessageAsRead.mockImplementation(async (id: string) => {
+      if (id === 'b') {
+        throw { isAxiosError: true, message: 'Server error', response: { status: 500, data: {} } };
+      }
+      return { data: {} };
+    });
+
+    const result = await pushService.markManyRead(['a', 'b', 'c']);
+
+    expect(result.succeeded).toEqual(['a', 'c']);
+    expect(result.failed).toEqual([{ notificationId: 'b', error: expect.any(ServerError) }]);
+  });
+
+  const page = (ids: string[], readIds: string[], last: boolean) => ({
+    data: { items: ids.map(id => ({ id, read: readIds.indexOf(id) !== -1 })), last },
+  });
+
+  it('should lower the unread stats only for notifications known to be unread', async () => {
+    messagesApi.listMessagesByCustomerAndChannel.mockResolvedValue(page(['a', 'b', 'c', 'd'], ['c'], true));
+    await pushService.getStats();
+    await pushService.getMessageHistory();
+
+    await pushService.markManyRead(['a', 'b', 'c']);
+    await pushService.markRead('a');
+    await pushService.markRead('unknown');
+    await pushService.markRead('d');
+
+    await expect(pushService.getStats({ maxAge: 60000 })).resolves.toMatchObject({ total: 40, unread: 27 });
+    expect(messagesApi.getCustomerMessagesStats).toHaveBeenCalledTimes(1);
+  });
+
+  it('should find and mark every unread notification', async () => {
+    messagesApi.listMessagesByCustomerAndChannel
+      .mockResolvedValueOnce(page(['a', 'b', 'c'], ['b'], false))
+      .mockResolvedValueOnce(page(['d'], [], true));
+    await pushService.getStats();
+
+    const result = await pushService.markAllRead();
+
+    expect(result).toEqual({ succeeded: ['a', 'c', 'd'], failed: [] });
+    expect(messagesApi.listMessagesByCustomerAndChannel.mock.calls.map(call => call[2])).toEqual([0, 1]);
+    await expect(pushService.getStats({ maxAge: 60000 })).resolves.toMatchObject({ unread: 0 });
+  });
+
+  it('should only look through the most recent notifications up to the limit', async () => {
+    messagesApi.listMessagesByCustomerAndChannel.mockImplementation(async (_id, _channel, index: number) =>
+      page(Array.from({ length: 100 }, (_, i) => `n-${index * 100 + i}`), [], false));
+    messagesApi.getCustomerMessagesStats.mockResolvedValue({ data: { total: 1000, read: 0 } });
+    await pushService.getStats();
+
+    const result = await pushService.markAllRead({ limit: 150 });
+
+    expect(result.succeeded).toHaveLength(150);
+    expect(messagesApi.listMessagesByCustomerAndChannel).toHaveBeenCalledTimes(2);
+    // Older notifications may still be unread
+    await expect(pushService.getStats({ maxAge: 60000 })).resolves.toMatchObject({ unread: 850 });
+  });
+
+  it('should receive notifications passed on by the service worker', async () => {
+    const worker = new EventTarget();
+    Object.defineProperty(navigator, 'serviceWorker', { value: worker, configurable: true });
+    (isSupported as jest.Mock).mockResolvedValue(true);
+    (onMessage as jest.Mock).mockReturnValue(() => undefined);
+    const listener = jest.fn();
+
+    try {
+      await pushService.initialize();
+      pushService.onNotification(listener);
+      const notification = { id: 'n-1', title: 'Hello', body: 'World', timestamp: 1, read: false };
+      worker.dispatchEvent(new MessageEvent('message', { data: { type: 'something-else' } }));
+      worker.dispatchEvent(new MessageEvent('message', { data: { type: 'towncryer:notification', notification } }));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(notification);
+    } finally {
+      delete (navigator as { serviceWorker?: unknown }).serviceWorker;
+    }
+  });
+
+  describe('engagement tracking', () => {
+    let handleMessage: (payload: object) => void;
+    let shown: Notification[];
+
+    const initialize = async (service: FirebasePushNotificationService) => {
+      (isSupported as jest.Mock).mockResolvedValue(true);
+      (getMessaging as jest.Mock).mockReturnValue({});
+      (onMessage as jest.Mock).mockImplementation((_, handler) => {
+        handleMessage = handler;
+        return () => undefined;
+      });
+      await service.initialize();
+    };
+
+    const message = {
+      messageId: 'm-1',
+      notification: { title: 'Sale', body: 'Half price' },
+      fcmOptions: { link: '/sale' },
+      data: { campaignId: 'summer' },
+    };
+
+    beforeEach(() => {
+      shown = [];
+      const FakeNotification = jest.fn().mockImplementation(() => {
+        const notification = { close: jest.fn() } as unknown as Notification;
+        shown.push(notification);
+        return notification;
+      });
+      Object.assign(FakeNotification, { permission: 'granted' });
+      Object.defineProperty(window, 'Notification', { value: FakeNotification, configurable: true });
+    });
+
+    afterEach(() => {
+      delete (window as { Notification?: unknown }).Notification;
+    });
+
+    const trackedEvents = () => publishEvent.mock.calls.map(([event]) => event.name);
+
+    it('should track delivery, display and dismissals', async () => {
+      await initialize(pushService);
+      pushService.receiveNotifications(() => undefined);
+
+      handleMessage(message);
+      handleMessage({ ...message, messageId: 'm-2' });
+      shown[0].onshow?.(new Event('show'));
+      shown[1].onclose?.(new Event('close'));
+
+      expect(trackedEvents()).toEqual([
+        'push_notification.delivered',
+        'push_notification.delivered',
+        'push_notification.displayed',
+        'push_notification.closed',
+      ]);
+      expect(publishEvent.mock.calls[0][0]).toEqual({
+        name: 'push_notification.delivered',
+        customer: { externalId: 'customer-1' },
+        data: { notificationId: 'm-1', campaignId: 'summer', link: '/sale', timestamp: expect.any(String) },
+      });
+    });
+
+    it('should hand clicks to the custom handler without tracking a dismissal', async () => {
+      const onClick = jest.fn();
+      const service = new FirebasePushNotificationService(
+        {} as FirebaseConfig,
+        { publishEvent } as unknown as EventService,
+        { getApi: () => messagesApi } as unknown as ApiService,
+        'customer-1',
+        { onClick }
+      );
+      await initialize(service);
+      service.receiveNotifications(() => undefined);
+
+      handleMessage(message);
+      shown[0].onclick?.(new Event('click'));
+      shown[0].onclose?.(new Event('close'));
+
+      expect(onClick).toHaveBeenCalledWith(expect.objectContaining({ id: 'm-1', link: '/sale' }));
+      expect(shown[0].close).toHaveBeenCalled();
+      expect(trackedEvents()).toEqual(['push_notification.delivered', 'push_notification.clicked']);
+    });
+
+    it('should only follow links to the app itself', async () => {
+      await initialize(pushService);
+      pushService.receiveNotifications(() => undefined);
+      const focus = jest.spyOn(window, 'focus').mockImplementation(() => undefined);
+      // jsdom reports navigation it cannot perform as an error
+      const navigationError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      handleMessage({ ...message, fcmOptions: { link: 'javascript:alert(1)' } });
+      handleMessage({ ...message, fcmOptions: { link: 'https://evil.example.com/#offers' } });
+      handleMessage({ ...message, fcmOptions: { link: '#offers' } });
+      shown[0].onclick?.(new Event('click'));
+      shown[1].onclick?.(new Event('click'));
+      expect(window.location.hash).toBe('');
+
+      shown[2].onclick?.(new Event('click'));
+      expect(window.location.hash).toBe('#offers');
+      expect(focus).toHaveBeenCalledTimes(3);
+      expect(navigationError).not.toHaveBeenCalled();
+      window.location.hash = '';
+      navigationError.mockRestore();
+    });
+
+    it('should not track anything when tracking is turned off', async () => {
+      const service = new FirebasePushNotificationService(
+        {} as FirebaseConfig,
+        { publishEvent } as unknown as EventService,
+        { getApi: () => messagesApi } as unknown as ApiService,
+        'customer-1',
+        { track: false }
+      );
+      await initialize(service);
+      service.receiveNotifications(() => undefined);
+
+      handleMessage(message);
+      shown[0].onshow?.(new Event('show'));
+
+      expect(publishEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('watchStats', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+      document.title = '';
+    });
+
+    it('should poll the stats and report changes', async () => {
+      jest.useFakeTimers();
+      const callback = jest.fn();
+
+      const stop = pushService.watchStats(callback, { interval: 1000 });
+      await jest.advanceTimersByTimeAsync(0);
+      messagesApi.getCustomerMessagesStats.mockResolvedValue({ data: { total: 41, read: 10 } });
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+      stop();
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(callback.mock.calls.map(([stats]) => stats.unread)).toEqual([30, 31]);
+      expect(messagesApi.getCustomerMessagesStats).toHaveBeenCalledTimes(3);
+    });
+
+    it('should count incoming notifications and notifications marked read', async () => {
+      let handleMessage: (payload: object) => void = () => undefined;
+      (isSupported as jest.Mock).mockResolvedValue(true);
+      (onMessage as jest.Mock).mockImplementation((_, handler) => {
+        handleMessage = handler;
+        return () => undefined;
+      });
+      messagesApi.listMessagesByCustomerAndChannel.mockResolvedValue(page(['a'], [], true));
+      await pushService.initialize();
+      await pushService.getMessageHistory();
+      const callback = jest.fn();
+      document.title = 'Inbox';
+
+      const stopWatching = pushService.watchStats(callback, { documentTitle: true });
+      await new Promise(resolve => setTimeout(resolve, 0));
+      handleMessage({ messageId: 'new', notification: { title: 'Hello' } });
+      await pushService.markRead('new');
+      await pushService.markRead('a');
+
+      expect(callback.mock.calls.map(([stats]) => stats.unread)).toEqual([30, 31, 30, 29]);
+      expect(document.title).toBe('(29) Inbox');
+      stopWatching();
+      expect(document.title).toBe('Inbox');
+    });
+  });
+});
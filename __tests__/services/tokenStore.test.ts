@@ -0,0 +1,60 @@
+import {
+  CookieTokenStore,
+  MemoryTokenStore,
+  WebStorageTokenStore,
+  getTokenStoreKey,
+} from '../../src/services/tokenStore';
+
+const tokens = { accessToken: 'access-token', refreshToken: 'refresh-token' };
+
+describe('getTokenStoreKey', () => {
+  it('should namespace keys per organisation', () => {
+    expect(getTokenStoreKey('org-a')).not.toBe(getTokenStoreKey('org-b'));
+    expect(getTokenStoreKey()).toBe('towncryer_tokens');
+  });
+});
+
+describe('MemoryTokenStore', () => {
+  it('should save, load and clear tokens', async () => {
+    const store = new MemoryTokenStore();
+
+    await store.save('key', tokens);
+    expect(await store.load('key')).toEqual(tokens);
+
+    await store.clear('key');
+    expect(await store.load('key')).toBeUndefined();
+  });
+});
+
+describe('WebStorageTokenStore', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should persist tokens as JSON', async () => {
+    const store = new WebStorageTokenStore(localStorage);
+
+    await store.save('key', tokens);
+
+    expect(JSON.parse(localStorage.getItem('key') as string)).toEqual(tokens);
+    expect(await new WebStorageTokenStore(localStorage).load('key')).toEqual(tokens);
+  });
+
+  it('should ignore corrupted entries', async () => {
+    localStorage.setItem('key', '{not json');
+
+    expect(await new WebStorageTokenStore(localStorage).load('key')).toBeUndefined();
+  });
+});
+
+describe('CookieTokenStore', () => {
+  it('should save, load and clear tokens', async () => {
+    const store = new CookieTokenStore({ secure: false });
+
+    await store.save('key', tokens);
+    expect(await store.load('key')).toEqual(tokens);
+
+    await store.clear('key');
+    expect(await store.load('key')).toBeUndefined();
+  });
+});
@@ -0,0 +1,200 @@
+jest.mock('firebase/app', () => ({ initializeApp: jest.fn() }));
+jest.mock('firebase/messaging', () => ({
+  getMessaging: jest.fn(() => ({})),
+  getToken: jest.fn(),
+  onMessage: jest.fn(() => () => undefined),
+  isSupported: jest.fn(() => Promise.resolve(true)),
+}));
+jest.mock('firebase/messaging/sw', () => ({ getMessaging: jest.fn() }));
+
+import ApiService from '../src/services/api';
+import { TowncryerCustomerService } from '../src/services/customerService';
+import { TowncryerMessageService } from '../src/services/messageService';
+import { TowncryerEventService } from '../src/services/eventService';
+import { Towncryer } from '../src/towncryerSDK';
+import { AuthenticationError, NetworkError } from '../src/utils/errors';
+import { FirebaseConfig } from '../src/types';
+
+jest.mock('@towncryerio/towncryer-js-api-client', () => ({
+  AuthApi: jest.fn(),
+  EventsApi: jest.fn(),
+  CustomersApi: jest.fn(),
+  MessagesApi: jest.fn(),
+  Configuration: jest.fn().mockImplementation((config = {}) => config),
+}));
+
+const deferred = () => {
+  let resolve!: () => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe('Towncryer initialization', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should hold API calls until the API key login completes', async () => {
+    const login = deferred();
+    jest.spyOn(ApiService.prototype, 'setApiKey').mockReturnValue(login.promise);
+    const createCustomer = jest.spyOn(TowncryerCustomerService.prototype, 'createCustomer')
+      .mockResolvedValue({ code: '200', message: 'created' });
+
+    const towncryer = new Towncryer({ authConfig: { apiKey: 'api-key' } });
+    const pending = towncryer.createCustomer({ identities: [], source: 'TowncryerAPI' });
+    await Promise.resolve();
+
+    expect(towncryer.status).toBe('initializing');
+    expect(createCustomer).not.toHaveBeenCalled();
+
+    login.resolve();
+
+    await expect(pending).resolves.toEqual({ code: '200', message: 'created' });
+    expect(towncryer.status).toBe('ready');
+  });
+
+  it('should reject ready() and held calls when login fails', async () => {
+    const login = deferred();
+    jest.spyOn(ApiService.prototype, 'setApiKey').mockReturnValue(login.promise);
+    const createCustomer = jest.spyOn(TowncryerCustomerService.prototype, 'createCustomer');
+
+    const towncryer = new Towncryer({ authConfig: { apiKey: 'invalid-key' } });
+    const pending = towncryer.createCustomer({ identities: [], source: 'TowncryerAPI' });
+
+    login.reject({ isAxiosError: true, message: 'Unauthorized', response: { status: 401, data: {} } });
+
+    await expect(towncryer.ready()).rejects.toBeInstanceOf(AuthenticationError);
+    await expect(pending).rejects.toBeInstanceOf(AuthenticationError);
+    expect(createCustomer).not.toHaveBeenCalled();
+    expect(towncryer.status).toBe('failed');
+  });
+
+  it('should log in again on the next call after a failed login', async () => {
+    const setApiKey = jest.spyOn(ApiService.prototype, 'setApiKey')
+      .mockRejectedValueOnce({ isAxiosError: true, message: 'Network Error', request: {} })
+      .mockResolvedValueOnce();
+    const createCustomer = jest.spyOn(TowncryerCustomerService.prototype, 'createCustomer')
+      .mockResolvedValue({ code: '200', message: 'created' });
+
+    const towncryer = new Towncryer({ authConfig: { apiKey: 'api-key' } });
+    await expect(towncryer.ready()).rejects.toBeInstanceOf(NetworkError);
+    expect(towncryer.status).toBe('failed');
+
+    await expect(towncryer.createCustomer({ identities: [], source: 'TowncryerAPI' }))
+      .resolves.toEqual({ code: '200', message: 'created' });
+    expect(setApiKey).toHaveBeenCalledTimes(2);
+    expect(createCustomer).toHaveBeenCalled();
+    expect(towncryer.status).toBe('ready');
+  });
+
+  it('should resolve create() once authenticated', async () => {
+    jest.spyOn(ApiService.prototype, 'setApiKey').mockResolvedValue();
+
+    const towncryer = await Towncryer.create({ authConfig: { apiKey: 'api-key' } });
+
+    expect(towncryer.status).toBe('ready');
+  });
+});
+
+describe('Towncryer push notifications', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep receiving notifications after the customer is identified', async () => {
+    jest.spyOn(TowncryerEventService.prototype, 'publishEvent').mockResolvedValue({ code: '200', message: 'Success' });
+    const towncryer = new Towncryer({ authConfig: {}, firebase: {} as FirebaseConfig });
+    const pushService = towncryer.getPushNotificationService();
+    await pushService.initialize();
+
+    await towncryer.identify('customer-1');
+
+    expect(towncryer.getPushNotificationService()).toBe(pushService);
+    expect(() => towncryer.getPushNotificationService().receiveNotifications(() => undefined)).not.toThrow();
+  });
+
+  it('should close the inbox of the previous customer', async () => {
+    jest.spyOn(TowncryerEventService.prototype, 'publishEvent').mockResolvedValue({ code: '200', message: 'Success' });
+    const towncryer = new Towncryer({ authConfig: {}, firebase: {} as FirebaseConfig, customerId: 'customer-1' });
+    const inbox = towncryer.getInbox();
+
+    towncryer.setCustomerId('customer-1');
+    expect(towncryer.getInbox()).toBe(inbox);
+
+    await towncryer.identify('customer-2');
+    expect(towncryer.getInbox()).not.toBe(inbox);
+  });
+});
+
+describe('Towncryer middleware', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should run message sending through middleware', async () => {
+    const sendMessages = jest.spyOn(TowncryerMessageService.prototype, 'sendMessages')
+      .mockImplementation(async (_messages, options) => ({ jobId: 'job-1', idempotencyKey: options?.idempotencyKey as string }));
+    const towncryer = new Towncryer({ authConfig: {} });
+    towncryer.use((context, next) => {
+      if (context.kind === 'message') {
+        context.payload = { ...context.payload, smses: [] };
+      }
+      return next();
+    });
+
+    const result = await towncryer.sendMessages({ emails: [] }, { idempotencyKey: 'key' });
+
+    expect(sendMessages).toHaveBeenCalledWith({ emails: [], smses: [] }, { idempotencyKey: 'key' });
+    expect(result).toEqual({ jobId: 'job-1', idempotencyKey: 'key' });
+  });
+
+  it('should not send messages dropped by middleware', async () => {
+    const sendMessages = jest.spyOn(TowncryerMessageService.prototype, 'sendMessages');
+    const towncryer = new Towncryer({ authConfig: {} });
+    towncryer.use(() => undefined);
+
+    await expect(towncryer.sendMessages({ emails: [] }, { idempotencyKey: 'key' })).resolves.toEqual({ idempotencyKey: 'key' });
+    expect(sendMessages).not.toHaveBeenCalled();
+  });
+});
+
+describe('Towncryer event catalog', () => {
+  interface AppEvents {
+    'order.completed': { orderId: string; total: number };
+    'trial.started': { plan: 'pro' | 'team' };
+  }
+
+  const customer = { externalId: 'customer-1' };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should check event data against the catalog at compile time', async () => {
+    const publishEvent = jest.spyOn(TowncryerEventService.prototype, 'publishEvent')
+      .mockResolvedValue({ code: '200', message: 'Success' });
+    const towncryer = new Towncryer<AppEvents>({ authConfig: {} });
+
+    await towncryer.publishEvent({ name: 'order.completed', customer, data: { orderId: 'o-1', total: 42 } });
+    // @ts-expect-error data does not match the shape declared for 'trial.started'
+    await towncryer.publishEvent({ name: 'trial.started', customer, data: { orderId: 'o-1' } });
+    // @ts-expect-error event name is not in the catalog
+    await towncryer.publishEvent({ name: 'order.complete', customer, data: {} });
+
+    expect(publishEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'order.completed', data: { orderId: 'o-1', total: 42 } }),
+      expect.anything()
+    );
+  });
+
+  it('should accept any event without a catalog', async () => {
+    jest.spyOn(TowncryerEventService.prototype, 'publishEvent').mockResolvedValue({ code: '200', message: 'Success' });
+    const towncryer = new Towncryer({ authConfig: {} });
+
+    await expect(towncryer.publishEvent({ name: 'anything', customer })).resolves.toEqual({ code: '200', message: 'Success' });
+  });
+});
@@ -0,0 +1,78 @@
+import { handleApiError } from '../../src/utils/errorHandler';
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  TowncryerError,
+  ValidationError,
+} from '../../src/utils/errors';
+
+const httpError = (status: number, data: object = {}, headers: Record<string, string> = {}) => ({
+  isAxiosError: true,
+  message: `Request failed with status code ${status}`,
+  response: { status, data, headers },
+});
+
+describe('handleApiError', () => {
+  it.each([
+    [400, ValidationError, false],
+    [401, AuthenticationError, false],
+    [403, AuthenticationError, false],
+    [404, NotFoundError, false],
+    [422, ValidationError, false],
+    [429, RateLimitError, true],
+    [500, ServerError, true],
+    [503, ServerError, true],
+  ])('should map status %i to %p', (status, ErrorClass, retryable) => {
+    const error = handleApiError(httpError(status));
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(TowncryerError);
+    expect(error.status).toBe(status);
+    expect(error.retryable).toBe(retryable);
+  });
+
+  it('should carry the server error code, message and request id', () => {
+    const error = handleApiError(httpError(
+      400,
+      { code: 1001, message: 'Email is invalid', errors: { email: 'invalid' } },
+      { 'x-request-id': 'req-123' }
+    ));
+
+    expect(error.message).toBe('Email is invalid');
+    expect(error.code).toBe('1001');
+    expect(error.requestId).toBe('req-123');
+    expect(error.details).toEqual({ email: 'invalid' });
+  });
+
+  it('should expose Retry-After on rate limit errors', () => {
+    const error = handleApiError(httpError(429, {}, { 'retry-after': '3' }));
+
+    expect((error as RateLimitError).retryAfter).toBe(3000);
+  });
+
+  it('should map requests without a response to network errors', () => {
+    const error = handleApiError({ isAxiosError: true, message: 'Network Error' });
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should wrap unknown errors without marking them retryable', () => {
+    const cause = new TypeError('boom');
+    const error = handleApiError(cause, { idempotencyKey: 'key-1' });
+
+    expect(error).toBeInstanceOf(TowncryerError);
+    expect(error.retryable).toBe(false);
+    expect(error.cause).toBe(cause);
+    expect(error.idempotencyKey).toBe('key-1');
+  });
+
+  it('should return SDK errors unchanged', () => {
+    const original = new ValidationError('invalid');
+
+    expect(handleApiError(original)).toBe(original);
+  });
+});
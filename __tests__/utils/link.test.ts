@@ -0,0 +1,21 @@
+import { toSafeLink } from '../../src/utils/link';
+
+describe('toSafeLink', () => {
+  const base = 'https://app.example.com/inbox';
+
+  it('should resolve relative and same-origin links', () => {
+    expect(toSafeLink('/orders/1', base)).toBe('https://app.example.com/orders/1');
+    expect(toSafeLink('https://app.example.com/sale?ref=push', base)).toBe('https://app.example.com/sale?ref=push');
+  });
+
+  it('should reject links to other origins or with other schemes', () => {
+    expect(toSafeLink('https://evil.example.com/', base)).toBeUndefined();
+    expect(toSafeLink('http://app.example.com/', base)).toBeUndefined();
+    expect(toSafeLink('javascript:alert(1)', base)).toBeUndefined();
+    expect(toSafeLink('data:text/html,hi', base)).toBeUndefined();
+  });
+
+  it('should reject links it cannot parse', () => {
+    expect(toSafeLink('http://[', base)).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { createSafeApi } from '../../src/utils/result';
+import { NotInitializedError, ServerError, TowncryerError } from '../../src/utils/errors';
+
+class Service {
+  async fetch(id: string): Promise<string> {
+    return `item-${id}`;
+  }
+
+  async fail(): Promise<string> {
+    throw { isAxiosError: true, message: 'Request failed', response: { status: 503 } };
+  }
+
+  current(): number {
+    throw new NotInitializedError('not ready');
+  }
+}
+
+describe('createSafeApi', () => {
+  const safe = createSafeApi(new Service());
+
+  it('should resolve successful calls as ok results', async () => {
+    await expect(safe.fetch('1')).resolves.toEqual({ ok: true, data: 'item-1' });
+  });
+
+  it('should resolve rejected calls as typed errors', async () => {
+    const result = await safe.fail();
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toBeInstanceOf(ServerError);
+      expect(result.error.status).toBe(503);
+    }
+  });
+
+  it('should capture synchronous throws', () => {
+    const result = safe.current();
+
+    expect(result).toEqual({ ok: false, error: expect.any(TowncryerError) });
+  });
+});
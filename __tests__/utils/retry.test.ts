@@ -0,0 +1,57 @@
+import { DEFAULT_RETRY_POLICY, computeBackoffDelay, getRetryDelay, parseRetryAfter } from '../../src/utils/retry';
+
+const policy = { ...DEFAULT_RETRY_POLICY, jitter: false };
+
+describe('retry policy', () => {
+  describe('parseRetryAfter', () => {
+    it('should parse delays in seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+      expect(parseRetryAfter(inFiveSeconds)).toBeGreaterThan(3000);
+    });
+
+    it('should ignore missing or malformed values', () => {
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('computeBackoffDelay', () => {
+    it('should grow exponentially up to the cap', () => {
+      expect(computeBackoffDelay(1, policy)).toBe(300);
+      expect(computeBackoffDelay(2, policy)).toBe(600);
+      expect(computeBackoffDelay(10, policy)).toBe(policy.maxDelay);
+    });
+
+    it('should stay within the backoff window with jitter', () => {
+      const delay = computeBackoffDelay(3, DEFAULT_RETRY_POLICY);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(1200);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should honour Retry-After on throttled requests', () => {
+      const error = { config: { method: 'post' }, response: { status: 429, headers: { 'retry-after': '1' } } };
+      expect(getRetryDelay(error, 1, policy)).toBe(1000);
+    });
+
+    it('should give up when Retry-After exceeds the maximum delay', () => {
+      const error = { config: { method: 'get' }, response: { status: 503, headers: { 'retry-after': '60' } } };
+      expect(getRetryDelay(error, 1, policy)).toBeUndefined();
+    });
+
+    it('should not retry client errors', () => {
+      const error = { config: { method: 'get' }, response: { status: 400 } };
+      expect(getRetryDelay(error, 1, policy)).toBeUndefined();
+    });
+
+    it('should retry POST requests that never reached the server', () => {
+      const error = { code: 'ECONNREFUSED', config: { method: 'post' } };
+      expect(getRetryDelay(error, 1, policy)).toBe(300);
+    });
+  });
+});
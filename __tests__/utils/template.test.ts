@@ -0,0 +1,49 @@
+import { createTemplatePayload, renderPreview } from '../../src/utils/template';
+
+describe('renderPreview', () => {
+  it('should render placeholders in the subject and body', () => {
+    const rendered = renderPreview(
+      { subject: 'Hi {{firstName}}', body: 'Order {{ order.id }} totals {{ order.total }}' },
+      { firstName: 'Ada', order: { id: 'A-1001', total: 12.5 } }
+    );
+
+    expect(rendered).toEqual({ subject: 'Hi Ada', body: 'Order A-1001 totals 12.5', missingVariables: [] });
+  });
+
+  it('should use fallbacks and report placeholders without a value', () => {
+    const rendered = renderPreview(
+      { body: 'Hi {{ firstName | there }}, {{ code }} expires {{ expiry.date }}. Code: {{ code }}' },
+      { expiry: null }
+    );
+
+    expect(rendered.body).toBe('Hi there,  expires . Code: ');
+    expect(rendered.missingVariables).toEqual(['code', 'expiry.date']);
+    expect(rendered).not.toHaveProperty('subject');
+  });
+
+  it('should only read the variables\' own properties', () => {
+    const rendered = renderPreview({ body: '{{ constructor }}{{ order.toString }}' }, { order: { id: 'A-1001' } });
+
+    expect(rendered.body).toBe('');
+    expect(rendered.missingVariables).toEqual(['constructor', 'order.toString']);
+  });
+
+  it('should leave text that is not a placeholder alone', () => {
+    expect(renderPreview({ body: 'Braces { single } and {{ }} stay' }).body).toBe('Braces { single } and {{ }} stay');
+  });
+});
+
+describe('createTemplatePayload', () => {
+  it('should carry each recipient\'s variables as their context', () => {
+    const payload = createTemplatePayload({
+      channel: 'sms',
+      templateId: 'otp',
+      from: 'Example',
+      recipients: [{ phoneNumber: '+447700900123', variables: { code: '123456' } }],
+    });
+
+    expect(payload).toEqual({
+      smses: [{ templateId: 'otp', from: 'Example', to: [{ phoneNumber: '+447700900123', context: { code: '123456' } }] }],
+    });
+  });
+});
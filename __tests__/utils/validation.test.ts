@@ -0,0 +1,66 @@
+import {
+  assertValid,
+  validateBulkMessagesPayload,
+  validateContactFormData,
+  validateCreateCustomerRequest,
+  validateEmailSubscription,
+  validateEventPayload,
+} from '../../src/utils/validation';
+import { ValidationError } from '../../src/utils/errors';
+
+const fields = (errors: { field: string }[]) => errors.map(error => error.field);
+
+describe('validation', () => {
+  it('should accept a valid event', () => {
+    expect(validateEventPayload({
+      name: 'order.completed',
+      customer: { externalId: 'customer-1', email: 'ada@example.com', phoneNumber: '+447700900123' },
+    })).toEqual([]);
+  });
+
+  it('should report every invalid event field', () => {
+    expect(fields(validateEventPayload({
+      name: ' ',
+      customer: { externalId: '', email: 'not-an-email', phoneNumber: '07700 900123' },
+    }))).toEqual(['name', 'customer.externalId', 'customer.email', 'customer.phoneNumber']);
+  });
+
+  it('should check identities by type when creating a customer', () => {
+    expect(fields(validateCreateCustomerRequest({
+      source: 'TowncryerAPI',
+      identities: [
+        { type: 'email', value: 'ada@example' },
+        { type: 'phone', value: '+447700900123' },
+        { type: 'external_id', value: '' },
+      ],
+    }))).toEqual(['identities[0].value', 'identities[2].value']);
+  });
+
+  it('should require at least one message and valid recipients', () => {
+    expect(fields(validateBulkMessagesPayload({}))).toEqual(['messages']);
+    expect(fields(validateBulkMessagesPayload({
+      emails: [{ content: 'Hello', recipients: [{ email: 'bad', name: 'Ada' }] }],
+      smses: [{ from: 'Towncryer', to: [{ phoneNumber: '+447700900123' }] }],
+      pushNotifications: [{ title: 'Hi', content: 'Hello', recipients: [] }],
+    }))).toEqual(['emails[0].recipients[0].email', 'pushNotifications[0].recipients', 'smses[0]']);
+  });
+
+  it('should validate contact forms and email subscriptions', () => {
+    expect(fields(validateContactFormData({ name: 'Ada', email: 'ada@', subject: '', message: 'Hi' })))
+      .toEqual(['email', 'subject']);
+    expect(fields(validateEmailSubscription('ada@example.com', { preferences: ['news'] }))).toEqual([]);
+    expect(fields(validateEmailSubscription('ada.example.com'))).toEqual(['email']);
+  });
+
+  it('should throw a ValidationError carrying the field errors', () => {
+    const errors = validateEmailSubscription('');
+
+    expect(() => assertValid(errors, 'email subscription')).toThrow(ValidationError);
+    try {
+      assertValid(errors, 'email subscription');
+    } catch (error) {
+      expect((error as ValidationError).fieldErrors).toEqual([{ field: 'email', message: 'is required' }]);
+      expect((error as ValidationError).message).toBe('Invalid email subscription: email is required');
+    }
+  });
+});
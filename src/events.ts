@@ -0,0 +1,117 @@
+import { PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
+
+/**
+ * Names of the events the SDK publishes itself
+ */
+export const BuiltInEventName = {
+  ContactFormSubmitted: 'contact_form.submitted',
+  EmailSubscription: 'email.subscription',
+  PushNotificationTokenRegistered: 'PushNotificationTokenRegisteredEvent',
+  CustomerAlias: 'customer.alias',
+  PushNotificationDelivered: 'push_notification.delivered',
+  PushNotificationDisplayed: 'push_notification.displayed',
+  PushNotificationClicked: 'push_notification.clicked',
+  PushNotificationClosed: 'push_notification.closed',
+} as const;
+
+export type BuiltInEventName = typeof BuiltInEventName[keyof typeof BuiltInEventName];
+
+/**
+ * Events recording what happened to a push notification after it was sent
+ */
+export type PushNotificationEngagementEventName =
+  | typeof BuiltInEventName.PushNotificationDelivered
+  | typeof BuiltInEventName.PushNotificationDisplayed
+  | typeof BuiltInEventName.PushNotificationClicked
+  | typeof BuiltInEventName.PushNotificationClosed;
+
+export interface ContactFormSubmittedData {
+  subject: string;
+  message: string;
+  /**
+   * Fields from the form's metadata
+   */
+  [field: string]: unknown;
+}
+
+export interface EmailSubscriptionData {
+  source: string;
+  preferences: string[];
+  timestamp: string;
+  /**
+   * Fields from the subscription's metadata
+   */
+  [field: string]: unknown;
+}
+
+export interface PushNotificationTokenRegisteredData {
+  platform: string;
+  timestamp: string;
+}
+
+export interface CustomerAliasData {
+  /**
+   * Anonymous ID whose history is merged into the identified customer
+   */
+  anonymousId: string;
+  traits: Record<string, unknown>;
+  timestamp: string;
+}
+
+export interface PushNotificationEngagementData {
+  notificationId: string;
+  /**
+   * Campaign the notification was sent for, from the message's `campaignId` data field
+   */
+  campaignId?: string;
+  /**
+   * Deep link the notification opens
+   */
+  link?: string;
+  /**
+   * Notification action the user chose, if not the notification itself
+   */
+  action?: string;
+  timestamp: string;
+}
+
+/**
+ * Data shape of each event the SDK publishes itself
+ */
+export interface BuiltInEvents {
+  'contact_form.submitted': ContactFormSubmittedData;
+  'email.subscription': EmailSubscriptionData;
+  'PushNotificationTokenRegisteredEvent': PushNotificationTokenRegisteredData;
+  'customer.alias': CustomerAliasData;
+  'push_notification.delivered': PushNotificationEngagementData;
+  'push_notification.displayed': PushNotificationEngagementData;
+  'push_notification.clicked': PushNotificationEngagementData;
+  'push_notification.closed': PushNotificationEngagementData;
+}
+
+/**
+ * Maps event names to the shape of their `data`. Declare one as an interface or type and
+ * pass it to `Towncryer<Events>` to have published events checked at compile time.
+ */
+export type EventCatalog<Events = Record<string, object>> = Record<keyof Events, object>;
+
+/**
+ * An event whose `data` matches the shape the catalog declares for its name
+ */
+export type TypedEventPayload<Events extends EventCatalog<Events>, K extends keyof Events & string> =
+  Omit<PublishEventPayload, 'name' | 'data'> & {
+    name: K;
+    data: Events[K];
+  };
+
+/**
+ * An event the SDK publishes itself
+ */
+export type BuiltInEventPayload<K extends BuiltInEventName> = TypedEventPayload<BuiltInEvents, K>;
+
+/**
+ * Any event of a catalog; falls back to an untyped payload when no catalog is given
+ */
+export type EventPayload<Events extends EventCatalog<Events>> = string extends keyof Events
+  ? PublishEventPayload
+  : { [K in keyof Events & string]: TypedEventPayload<Events, K> }[keyof Events & string];
@@ -8,14 +8,34 @@
 
 // Export all types
 export * from './types';
+export * from './events';
 
 // Export all services
+export * from './services/api';
+export { default as ApiService } from './services/api';
+export * from './services/tokenStore';
 export * from './services/eventService';
+export * from './services/eventQueue';
+export * from './services/eventBuffer';
+export * from './services/eventEnrichment';
+export * from './services/middleware';
 export * from './services/customerService';
+export * from './services/identityService';
 export * from './services/messageService';
+export * from './services/messageBuilder';
 export * from './services/pushNotificationService';
+export * from './services/notificationCache';
+export * from './services/inbox';
 export * from './services/utilityService';
 
+// Export utilities
+export * from './utils/errors';
+export * from './utils/result';
+export * from './utils/emitter';
+export * from './utils/retry';
+export * from './utils/validation';
+export * from './utils/template';
+
 // Export the main SDK
 export * from './towncryerSDK';
 
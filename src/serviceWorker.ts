@@ -0,0 +1,254 @@
+/**
+ * Towncryer service worker companion
+ *
+ * Shows push notifications received while no page of the app is visible, opens their
+ * deep link when clicked, records their delivery, display, clicks and dismissals to Towncryer and passes background
+ * notifications on to open pages so their inbox stays in sync. Built as a separate bundle,
+ * `dist/towncryer-sw.js`, to load in the service worker with `importScripts`.
+ */
+
+import { initializeApp } from 'firebase/app';
+import { getMessaging, onBackgroundMessage } from 'firebase/messaging/sw';
+import { MessagePayload } from 'firebase/messaging';
+import { AuthConfig, Config, FirebaseConfig, PushNotification } from './types';
+import { BuiltInEventName, PushNotificationEngagementData, PushNotificationEngagementEventName } from './events';
+import ApiService, { resolveBaseUrl } from './services/api';
+import { EventService, TowncryerEventService } from './services/eventService';
+import {
+  ServiceWorkerNotificationMessage,
+  fromMessagePayload,
+  loadServiceWorkerCustomerId
+} from './services/serviceWorkerBridge';
+import { toSafeLink } from './utils/link';
+
+// Key under which Firebase stores the message in notifications it shows itself
+const FCM_MESSAGE_KEY = 'FCM_MSG';
+
+/**
+ * What the service worker needs to publish events; it publishes them directly, without
+ * the queueing, buffering and middleware of the full SDK
+ */
+export type ServiceWorkerTowncryerConfig = Pick<Config, 'environment' | 'baseUrl' | 'organisationId'> & {
+  authConfig: Pick<AuthConfig, 'apiKey' | 'accessToken' | 'refreshToken'>;
+};
+
+export interface ServiceWorkerConfig {
+  firebase: FirebaseConfig;
+  /**
+   * Towncryer configuration used to record engagement events, usually with a public API key.
+   * Nothing is recorded when omitted.
+   */
+  towncryer?: ServiceWorkerTowncryerConfig;
+  /**
+   * URL to open when a notification without a link is clicked (default: '/')
+   */
+  defaultLink?: string;
+  /**
+   * Icon for notifications without an image
+   */
+  icon?: string;
+}
+
+/**
+ * What the service worker stores in the notifications it shows
+ */
+interface NotificationDetails {
+  notificationId: string;
+  link?: string;
+  campaignId?: string;
+  customerId?: string;
+}
+
+// The service worker globals, which the DOM typings used to build the SDK do not describe
+interface WorkerClient {
+  url: string;
+  focus?(): Promise<WorkerClient>;
+  navigate?(url: string): Promise<WorkerClient | null>;
+  postMessage(message: unknown): void;
+}
+
+interface WorkerNotificationEvent {
+  notification: Notification;
+  action?: string;
+  waitUntil(promise: Promise<unknown>): void;
+  stopImmediatePropagation(): void;
+}
+
+interface WorkerScope {
+  location: Location;
+  registration: ServiceWorkerRegistration;
+  clients: {
+    matchAll(options: { type: 'window'; includeUncontrolled: boolean }): Promise<WorkerClient[]>;
+    openWindow(url: string): Promise<WorkerClient | null>;
+  };
+  addEventListener(type: 'notificationclick' | 'notificationclose', listener: (event: WorkerNotificationEvent) => void): void;
+}
+
+/**
+ * Set up push notification handling in the service worker. Call it once, at the top level of the worker.
+ * @param config Firebase configuration, plus the SDK configuration to record engagement events
+ * @example
+ * ```javascript
+ * // firebase-messaging-sw.js
+ * importScripts('/towncryer-sw.js');
+ * towncryerSw.initializeServiceWorker({
+ *   firebase: { apiKey: '...', projectId: '...', messagingSenderId: '...', appId: '...' },
+ *   towncryer: { authConfig: { apiKey: 'your-public-api-key' } },
+ * });
+ * ```
+ */
+export function initializeServiceWorker(config: ServiceWorkerConfig): void {
+  const scope = self as unknown as WorkerScope;
+  let eventService: Promise<EventService> | undefined;
+
+  const record = async (
+    name: PushNotificationEngagementEventName,
+    details: NotificationDetails,
+    action?: string
+  ) => {
+    const towncryer = config.towncryer;
+    if (!towncryer) {
+      return;
+    }
+    try {
+      const customerId = details.customerId ?? await loadServiceWorkerCustomerId();
+      if (!customerId) {
+        return;
+      }
+      // Connect on first use; a failed login is retried with the next event
+      eventService = eventService ?? createEventService(towncryer).catch(error => {
+        eventService = undefined;
+        throw error;
+      });
+      const data: PushNotificationEngagementData = {
+        notificationId: details.notificationId,
+        campaignId: details.campaignId,
+        link: details.link,
+        action: action || undefined,
+        timestamp: new Date().toISOString(),
+      };
+      await (await eventService).publishEvent({ name, customer: { externalId: customerId }, data });
+    } catch (e) {
+      console.warn(`Failed to record ${name}`, e);
+    }
+  };
+
+  // Registered before Firebase's own click handler, which would otherwise handle its notifications first
+  scope.addEventListener('notificationclick', event => {
+    const details = getDetails(event.notification);
+    // Leave notifications the app shows for anything else to its own handlers
+    if (!details) {
+      return;
+    }
+    event.stopImmediatePropagation();
+    event.notification.close();
+    event.waitUntil(Promise.all([
+      openLink(scope, details.link, config.defaultLink),
+      record(BuiltInEventName.PushNotificationClicked, details, event.action),
+    ]));
+  });
+
+  scope.addEventListener('notificationclose', event => {
+    const details = getDetails(event.notification);
+    if (details) {
+      event.waitUntil(record(BuiltInEventName.PushNotificationClosed, details));
+    }
+  });
+
+  const messaging = getMessaging(initializeApp(config.firebase));
+  onBackgroundMessage(messaging, async (payload) => {
+    const notification = fromMessagePayload(payload);
+    const details: NotificationDetails = {
+      notificationId: notification.id,
+      link: notification.link,
+      campaignId: payload.data?.campaignId,
+      customerId: await loadServiceWorkerCustomerId().catch(() => undefined),
+    };
+    await Promise.all([
+      postToPages(scope, { type: 'towncryer:notification', notification }),
+      record(BuiltInEventName.PushNotificationDelivered, details),
+    ]);
+
+    // Firebase shows messages with a notification payload itself; only data messages are shown here
+    const shown = payload.notification ? true : await showNotification(scope, notification, details, config.icon);
+    if (shown) {
+      await record(BuiltInEventName.PushNotificationDisplayed, details);
+    }
+  });
+}
+
+async function createEventService(config: ServiceWorkerTowncryerConfig): Promise<EventService> {
+  const apiService = new ApiService();
+  apiService.setBaseUrl(resolveBaseUrl(config.environment, config.baseUrl));
+  if (config.organisationId) {
+    apiService.setOrganisationId(config.organisationId);
+  }
+  if (config.authConfig.accessToken) {
+    apiService.setToken(config.authConfig.accessToken);
+    apiService.setRefreshToken(config.authConfig.refreshToken);
+  } else if (config.authConfig.apiKey) {
+    await apiService.setApiKey(config.authConfig.apiKey);
+  }
+  return new TowncryerEventService(apiService);
+}
+
+/**
+ * Show a data message, if it has a title
+ * @returns Whether the notification was shown
+ */
+async function showNotification(
+  scope: WorkerScope,
+  notification: PushNotification,
+  details: NotificationDetails,
+  icon: string | undefined
+): Promise<boolean> {
+  if (!notification.title) {
+    return false;
+  }
+  await scope.registration.showNotification(notification.title, {
+    body: notification.body,
+    icon: notification.imageUrl ?? icon,
+    tag: notification.id,
+    data: details,
+  });
+  return true;
+}
+
+async function postToPages(scope: WorkerScope, message: ServiceWorkerNotificationMessage): Promise<void> {
+  const pages = await scope.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  pages.forEach(page => page.postMessage(message));
+}
+
+/**
+ * Focus a page already showing the link, or open it. Links outside the app are replaced by the default link.
+ */
+async function openLink(scope: WorkerScope, link: string | undefined, defaultLink = '/'): Promise<void> {
+  const url = (link && toSafeLink(link, scope.location.href)) ?? new URL(defaultLink, scope.location.href).href;
+  const pages = await scope.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const page = pages.filter(client => client.url === url)[0];
+  if (page?.focus) {
+    await page.focus();
+  } else {
+    await scope.clients.openWindow(url);
+  }
+}
+
+/**
+ * Details of a notification shown by this worker or by Firebase, or undefined for other notifications
+ */
+function getDetails(notification: Notification): NotificationDetails | undefined {
+  const data = notification.data;
+  if (data?.[FCM_MESSAGE_KEY]) {
+    const message = data[FCM_MESSAGE_KEY];
+    return {
+      notificationId: message.data?.notificationId ?? message.fcmMessageId ?? message.messageId ?? notification.tag,
+      link: getLink(message),
+      campaignId: message.data?.campaignId,
+    };
+  }
+  return data?.notificationId ? data as NotificationDetails : undefined;
+}
+
+function getLink(payload: Pick<MessagePayload, 'fcmOptions' | 'data'>): string | undefined {
+  return payload.fcmOptions?.link || payload.data?.link || undefined;
+}
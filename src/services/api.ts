@@ -7,6 +7,13 @@ import {
   ApiError,
 } from '@towncryerio/towncryer-js-api-client';
 import axios, { AxiosInstance, CreateAxiosDefaults } from 'axios';
+import { AuthEvents, Environment } from '../types';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, getRetryDelay } from '../utils/retry';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+import { handleApiError } from '../utils/errorHandler';
+import { Emitter, Listener } from '../utils/emitter';
+import { getTokenExpiry } from '../utils/jwt';
+import { StoredTokens, TokenStore, getTokenStoreKey } from './tokenStore';
 
 enum AuthMethod {
   API_KEY = 'api_key',
@@ -20,6 +27,62 @@ type ApiTypes = {
     message: MessagesApi;
 };
 
+export const ENVIRONMENT_BASE_URLS: Record<Environment, string> = {
+  production: 'https://api.towncryer.io/api/v1',
+  staging: 'https://staging-api.towncryer.io/api/v1',
+  local: 'http://localhost:8888/api/v1',
+};
+
+// Staging, as the SDK has always targeted by default
+export const DEFAULT_ENVIRONMENT: Environment = 'staging';
+
+export const DEFAULT_REFRESH_LEEWAY = 60000;
+
+// Login and refresh requests; a 401 from these means the credentials were rejected, not that the token expired
+const AUTH_PATH_PATTERN = /\/auth\//;
+
+// setTimeout overflows for delays above 2^31 - 1 ms (~24.8 days)
+const MAX_TIMER_DELAY = 2147483647;
+
+/**
+ * Validate that a base URL is an absolute http(s) URL
+ * @param baseUrl Base URL to validate
+ * @throws ValidationError if the URL is malformed or uses an unsupported protocol
+ */
+export function validateBaseUrl(baseUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    throw new ValidationError(`Invalid base URL: ${baseUrl}`);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ValidationError(`Invalid base URL protocol: ${url.protocol} (expected http: or https:)`);
+  }
+
+  return baseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Resolve the API base URL from an environment and/or an explicit base URL.
+ * An explicit base URL always wins over the environment default.
+ * @param environment Target environment (default: staging)
+ * @param baseUrl Explicit base URL override
+ * @throws ValidationError if the environment is unknown or the base URL is invalid
+ */
+export function resolveBaseUrl(environment?: Environment, baseUrl?: string): string {
+  if (environment !== undefined && !Object.prototype.hasOwnProperty.call(ENVIRONMENT_BASE_URLS, environment)) {
+    throw new ValidationError(`Unknown environment: ${environment}. Expected one of ${Object.keys(ENVIRONMENT_BASE_URLS).join(', ')}`);
+  }
+
+  if (baseUrl) {
+    return validateBaseUrl(baseUrl);
+  }
+
+  return ENVIRONMENT_BASE_URLS[environment ?? DEFAULT_ENVIRONMENT];
+}
+
 export interface AxiosInstanceFactory {
     create(config?: CreateAxiosDefaults): AxiosInstance;
 }
@@ -31,7 +94,6 @@ export class DefaultAxiosInstanceFactory implements AxiosInstanceFactory {
 }
 
 export default class ApiService {
-  private static instance: ApiService;
   private apiInstances: Partial<ApiTypes> = {};
   private configuration: Configuration = {
     isJsonMime: (mime: string) => {
@@ -45,30 +107,41 @@ export default class ApiService {
     }> = [];
   private token?: string;
   private refreshToken?: string;
+  private apiKey?: string;
   private isRefreshing = false;
   private tenantId = '';
   private axiosInstanceFactory: AxiosInstanceFactory;
   private authMethod: AuthMethod = AuthMethod.TOKEN;
-  private constructor(axiosFactory: AxiosInstanceFactory) {
+  private retryPolicy: RetryPolicy | null = DEFAULT_RETRY_POLICY;
+  private refreshLeeway: number | false = DEFAULT_REFRESH_LEEWAY;
+  private refreshTimer?: ReturnType<typeof setTimeout>;
+  private refreshPromise?: Promise<string>;
+  private authEvents = new Emitter<AuthEvents>();
+  private tokenStore?: TokenStore;
+  constructor(axiosFactory: AxiosInstanceFactory = new DefaultAxiosInstanceFactory()) {
     this.axiosInstanceFactory = axiosFactory;
     this.axiosInstance = this.createAxiosInstance();
     this.setupAxiosInterceptors();
   }
 
-  public static getInstance(factory: AxiosInstanceFactory): ApiService {
-    if (!ApiService.instance) {
-      ApiService.instance = new ApiService(factory);
-    }
-
-    return ApiService.instance;
-  }
-
   private updateAxiosInstance() {
     this.axiosInstance = this.createAxiosInstance();
     this.setupAxiosInterceptors();
+    // API instances capture the axios instance and base path on creation
+    this.apiInstances = {};
   }
 
   private createAxiosInstance(): AxiosInstance {
+    return this.axiosInstanceFactory.create({
+      baseURL: this.configuration.basePath,
+      headers: this.getRequestHeaders(),
+    });
+  }
+
+  /**
+   * Headers sent with every request, for transports that bypass axios (e.g. keepalive fetch)
+   */
+  public getRequestHeaders(): Record<string, string> {
     const headers: Record<string, string> = {
       'Client': 'TowncryerCoreSDK',
     };
@@ -81,24 +154,30 @@ export default class ApiService {
       headers['Authorization'] = `Bearer ${this.token}`;
     }
 
-    return this.axiosInstanceFactory.create({
-      baseURL: this.configuration.basePath,
-      headers,
-    });
+    return headers;
   }
 
   public setBaseUrl(baseUrl: string) {
     this.configuration = new Configuration({
       ...this.configuration,
-      basePath: baseUrl,
+      basePath: validateBaseUrl(baseUrl),
     });
     this.updateAxiosInstance();
   }
 
+  public setEnvironment(environment: Environment) {
+    this.setBaseUrl(resolveBaseUrl(environment));
+  }
+
+  public getBaseUrl(): string | undefined {
+    return this.configuration.basePath;
+  }
+
   public setToken(token: string | undefined) {
     if (this.token === token) return;
     this.token = token;
     this.updateAxiosInstance();
+    this.scheduleProactiveRefresh();
   }
 
   public setOrganisationId(organisationId: string) {
@@ -114,18 +193,165 @@ export default class ApiService {
     
     if (shouldUpdate) {
       this.updateAxiosInstance();
+      this.scheduleProactiveRefresh();
     }
   }
 
+  /**
+   * Configure how failed requests are retried. Pass false to disable retries.
+   * @param policy Overrides for the default retry policy
+   */
+  public setRetryPolicy(policy: Partial<RetryPolicy> | false) {
+    this.retryPolicy = policy === false ? null : { ...DEFAULT_RETRY_POLICY, ...policy };
+  }
+
   public setRefreshToken(refreshToken: string | undefined) {
     this.refreshToken = refreshToken;
+    this.scheduleProactiveRefresh();
+  }
+
+  /**
+   * Set how long before access token expiry it is refreshed, or false to only refresh after a 401
+   * @param leeway Milliseconds before expiry
+   */
+  public setRefreshLeeway(leeway: number | false) {
+    this.refreshLeeway = leeway;
+    this.scheduleProactiveRefresh();
+  }
+
+  /**
+   * Set where tokens are persisted. Tokens are saved per organisation ID.
+   * @param store Token store, or undefined to keep tokens in memory only
+   */
+  public setTokenStore(store: TokenStore | undefined) {
+    this.tokenStore = store;
+  }
+
+  /**
+   * Load the tokens saved for the current organisation from the token store
+   * @returns Whether an access token was restored
+   */
+  public async restoreTokens(): Promise<boolean> {
+    if (!this.tokenStore) {
+      return false;
+    }
+
+    const tokens = await this.tokenStore.load(getTokenStoreKey(this.tenantId));
+    if (tokens?.refreshToken) {
+      this.setRefreshToken(tokens.refreshToken);
+    }
+    if (tokens?.accessToken) {
+      this.setToken(tokens.accessToken);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Save the current tokens to the token store, if one is set.
+   * Storage failures are logged rather than thrown so they never break authentication.
+   */
+  public async persistTokens(): Promise<void> {
+    if (!this.tokenStore) {
+      return;
+    }
+
+    try {
+      await this.tokenStore.save(getTokenStoreKey(this.tenantId), {
+        accessToken: this.token,
+        refreshToken: this.refreshToken,
+      });
+    } catch (error) {
+      console.warn('Failed to persist Towncryer tokens:', error);
+    }
+  }
+
+  /**
+   * Remove the tokens saved for the current organisation, e.g. once the session is rejected.
+   * Storage failures are logged rather than thrown.
+   */
+  public async clearStoredTokens(): Promise<void> {
+    if (!this.tokenStore) {
+      return;
+    }
+
+    try {
+      await this.tokenStore.clear(getTokenStoreKey(this.tenantId));
+    } catch (error) {
+      console.warn('Failed to clear Towncryer tokens:', error);
+    }
+  }
+
+  /**
+   * Subscribe to authentication lifecycle events
+   * @param event Event name
+   * @param listener Called with the event payload
+   * @returns Function that removes the listener
+   */
+  public on<K extends keyof AuthEvents>(event: K, listener: Listener<AuthEvents[K]>): () => void {
+    return this.authEvents.on(event, listener);
+  }
+
+  /**
+   * Exchange the refresh token for a new token pair. Concurrent calls share one request.
+   * @returns The new access token
+   * @throws AuthenticationError if there is no refresh token or the refresh is rejected
+   */
+  public refreshTokens(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.refreshShortLivedToken().finally(() => {
+        this.refreshPromise = undefined;
+      });
+    }
+    return this.refreshPromise;
   }
 
-  public async setApiKey(apiKey: string): Promise<void> {
+  private scheduleProactiveRefresh() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+
+    if (!this.token || !this.refreshToken || this.refreshLeeway === false) {
+      return;
+    }
+
+    const expiresAt = getTokenExpiry(this.token);
+    if (expiresAt === undefined) {
+      return;
+    }
+
+    const refreshAt = expiresAt - this.refreshLeeway;
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      if (Date.now() < refreshAt) {
+        this.scheduleProactiveRefresh();
+        return;
+      }
+      this.refreshTokens().catch(() => undefined);
+    }, Math.min(Math.max(0, refreshAt - Date.now()), MAX_TIMER_DELAY));
+
+    const timer = this.refreshTimer as { unref?: () => void };
+    if (typeof timer.unref === 'function') {
+      timer.unref();
+    }
+  }
+
+  /**
+   * Authenticate with an API key, exchanging it for a token pair
+   * @param apiKey Client app API key, also used to log in again if the session is later rejected
+   * @param reuseStoredTokens Skip the login when the token store already holds a session
+   */
+  public async setApiKey(apiKey: string, reuseStoredTokens = false): Promise<void> {
     this.authMethod = AuthMethod.API_KEY;
+    this.apiKey = apiKey;
+    if (reuseStoredTokens && await this.restoreTokens()) {
+      return;
+    }
     const response = await this.getApi('auth').clientAppLogin({ apiKey });
     this.setToken(response.data.accessToken);
     this.setRefreshToken(response.data.refreshToken);
+    await this.persistTokens();
   }
 
   public getApi<K extends keyof ApiTypes>(apiName: K): ApiTypes[K] {
@@ -159,23 +385,64 @@ export default class ApiService {
   }
 
   private refreshShortLivedToken = async (): Promise<string> => {
+    let tokens: StoredTokens;
     if (!this.refreshToken) {
-      throw new Error('Refresh token is required to refresh short-lived token');
-    }
-
-    let response;
-    if (this.authMethod === AuthMethod.API_KEY) {
-      response = await this.getApi('auth').refreshClientAppToken({ refreshToken: this.refreshToken });
+      tokens = await this.startNewSession(new AuthenticationError('Refresh token is required to refresh short-lived token'));
     } else {
-      response = await this.getApi('auth').refreshShortLivedToken({ refreshToken: this.refreshToken });
+      try {
+        if (this.authMethod === AuthMethod.API_KEY) {
+          tokens = (await this.getApi('auth').refreshClientAppToken({ refreshToken: this.refreshToken })).data;
+        } else {
+          tokens = (await this.getApi('auth').refreshShortLivedToken({ refreshToken: this.refreshToken })).data;
+        }
+      } catch (error) {
+        const refreshError = handleApiError(error);
+        this.authEvents.emit('refreshFailed', { error: refreshError });
+        if (!(refreshError instanceof AuthenticationError)) {
+          throw refreshError;
+        }
+        tokens = await this.startNewSession(refreshError);
+      }
     }
 
-    this.setToken(response.data.accessToken);
-    this.setRefreshToken(response.data.refreshToken);
+    this.setToken(tokens.accessToken);
+    this.setRefreshToken(tokens.refreshToken);
+    await this.persistTokens();
+
+    const accessToken = tokens.accessToken || '';
+    this.authEvents.emit('tokenRefreshed', {
+      accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: getTokenExpiry(accessToken)
+    });
 
-    return response.data.accessToken || '';
+    return accessToken;
   };
 
+  /**
+   * The session was rejected: forget its stored tokens so the next start does not restore them,
+   * then log in again with the API key if there is one
+   * @param error Why the session was rejected, thrown when there is no API key to log in with
+   */
+  private async startNewSession(error: AuthenticationError): Promise<StoredTokens> {
+    this.setRefreshToken(undefined);
+    await this.clearStoredTokens();
+
+    if (this.authMethod === AuthMethod.API_KEY && this.apiKey) {
+      try {
+        return (await this.getApi('auth').clientAppLogin({ apiKey: this.apiKey })).data;
+      } catch (loginError) {
+        const failure = handleApiError(loginError);
+        if (!(failure instanceof AuthenticationError)) {
+          throw failure;
+        }
+        error = failure;
+      }
+    }
+    this.authEvents.emit('unauthenticated', { error });
+    throw error;
+  }
+
   private setupAxiosInterceptors() {
     this.axiosInstance.interceptors.request.use(
       request => {
@@ -204,6 +471,11 @@ export default class ApiService {
           return Promise.reject(error);
         }
 
+        // Refreshing for a failed refresh would wait on itself and never settle
+        if (AUTH_PATH_PATTERN.test(originalRequest.url ?? '')) {
+          return Promise.reject(error);
+        }
+
         originalRequest._retry = true;
 
         if (this.isRefreshing) {
@@ -218,7 +490,7 @@ export default class ApiService {
         this.isRefreshing = true;
 
         try {
-          const newToken = await this.refreshShortLivedToken();
+          const newToken = await this.refreshTokens();
           originalRequest.headers['Authorization'] = `Bearer ${newToken}`;
           this.processQueue(null, newToken);
           return this.axiosInstance(originalRequest)
@@ -231,11 +503,35 @@ export default class ApiService {
             });
         } catch (error) {
           this.processQueue(error as ApiError, null);
+          this.isRefreshing = false;
           return Promise.reject(error);
         }
       }
     );
+
+    this.axiosInstance.interceptors.response.use(
+      response => response,
+      async error => {
+        const originalRequest = error.config;
+
+        if (
+          !this.retryPolicy ||
+                    !originalRequest ||
+                    originalRequest?.headers['Client'] !== 'TowncryerCoreSDK'
+        ) {
+          return Promise.reject(error);
+        }
+
+        const retry = (originalRequest._retryCount ?? 0) + 1;
+        const delay = getRetryDelay(error, retry, this.retryPolicy);
+        if (delay === undefined) {
+          return Promise.reject(error);
+        }
+
+        originalRequest._retryCount = retry;
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return this.axiosInstance(originalRequest);
+      }
+    );
   }
 }
-
-export const apiService = ApiService.getInstance(new DefaultAxiosInstanceFactory());
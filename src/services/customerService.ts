@@ -1,5 +1,7 @@
 import { ApiResponse, CreateCustomerRequest, CustomersApi } from '@towncryerio/towncryer-js-api-client';
-import { apiService } from './api';
+import ApiService from './api';
+import { handleApiError } from '../utils/errorHandler';
+import { assertValid, validateCreateCustomerRequest } from '../utils/validation';
 
 /**
  * Customer Service Interface
@@ -16,24 +18,28 @@ export interface CustomerService {
  * Customer Service Implementation
  */
 export class TowncryerCustomerService implements CustomerService {
-  private customersApi: CustomersApi;
-    
-  constructor() {
-    this.customersApi = apiService.getApi('customer');
+  constructor(
+        private apiService: ApiService,
+  ) {}
+
+  private get customersApi(): CustomersApi {
+    return this.apiService.getApi('customer');
   }
     
   /**
      * Create a new customer
      * @param customer Customer data
-     * @throws Error if customer creation fails
+     * @throws ValidationError if the customer is invalid, before anything is sent
+     * @throws TowncryerError if customer creation fails
      * @returns Created customer response
      */
   async createCustomer(customer: CreateCustomerRequest): Promise<ApiResponse> {
+    assertValid(validateCreateCustomerRequest(customer), 'customer');
     try {
       const response = await this.customersApi.createCustomer(customer);
       return response;
     } catch (error) {
-      throw new Error(`Failed to create customer: ${error instanceof Error ? error.message : String(error)}`);
+      throw handleApiError(error);
     }
   }
 }
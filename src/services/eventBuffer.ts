@@ -0,0 +1,268 @@
+import { PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
+import { IdempotencyOptions, PublishEventResult } from '../types';
+import { EventService } from './eventService';
+import ApiService from './api';
+import { handleApiError } from '../utils/errorHandler';
+import { generateId } from '../utils/id';
+import { IDEMPOTENCY_KEY_HEADER } from '../utils/retry';
+
+const DEFAULT_MAX_BUFFER_SIZE = 20;
+// Browsers cap keepalive bodies at 64KB in total
+const DEFAULT_MAX_BUFFER_BYTES = 64 * 1024;
+const DEFAULT_FLUSH_INTERVAL = 5000;
+const EVENTS_PATH = '/events';
+
+export interface EventBufferOptions {
+  /**
+   * Flush once this many events are buffered (default: 20)
+   */
+  maxBufferSize?: number;
+  /**
+   * Flush once the buffered payloads reach this many bytes (default: 65536)
+   */
+  maxBufferBytes?: number;
+  /**
+   * Milliseconds to wait before flushing a partial buffer (default: 5000)
+   */
+  flushInterval?: number;
+  /**
+   * Flush with keepalive requests when the page is hidden or unloaded (default: true)
+   */
+  flushOnPageHide?: boolean;
+  /**
+   * Flush before a Node process exits (default: true)
+   */
+  flushOnExit?: boolean;
+}
+
+interface BufferedEvent {
+  payload: PublishEventPayload;
+  idempotencyKey: string;
+  bytes: number;
+  resolve: (response: PublishEventResult) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Event service that buffers events and publishes them through another EventService when flushed.
+ * The API has no batch endpoint, so each event is still sent in its own request; buffering takes
+ * sending off the hot path and lets the buffer go out with keepalive requests when the page is hidden,
+ * at the cost of delaying each event by up to `flushInterval`.
+ * Every `publishEvent` promise resolves with the outcome of its own event once it is sent.
+ */
+export class BufferingEventService implements EventService {
+  private buffer: BufferedEvent[] = [];
+  private bufferBytes = 0;
+  private maxBufferSize: number;
+  private maxBufferBytes: number;
+  private flushInterval: number;
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private pendingFlushes = new Set<Promise<void>>();
+  private removeListeners: Array<() => void> = [];
+
+  constructor(
+    private eventService: EventService,
+    private apiService: ApiService,
+    options: EventBufferOptions = {},
+  ) {
+    this.maxBufferSize = options.maxBufferSize ?? DEFAULT_MAX_BUFFER_SIZE;
+    this.maxBufferBytes = options.maxBufferBytes ?? DEFAULT_MAX_BUFFER_BYTES;
+    this.flushInterval = options.flushInterval ?? DEFAULT_FLUSH_INTERVAL;
+
+    if (options.flushOnPageHide !== false) {
+      this.listenForPageHide();
+    }
+    if (options.flushOnExit !== false) {
+      this.listenForProcessExit();
+    }
+  }
+
+  /**
+   * Number of events waiting for the next flush
+   */
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Buffer an event for the next flush
+   * @param eventPayload Event payload data
+   * @param options Idempotency key for the request
+   * @returns The outcome of this event once it has been sent
+   * @throws TowncryerError if this event could not be published
+   */
+  publishEvent(eventPayload: PublishEventPayload, options: IdempotencyOptions = {}): Promise<PublishEventResult> {
+    const idempotencyKey = options.idempotencyKey ?? generateId();
+    const bytes = byteLength(JSON.stringify(eventPayload));
+
+    if (this.buffer.length > 0 && this.bufferBytes + bytes > this.maxBufferBytes) {
+      this.flush();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.buffer.push({ payload: eventPayload, idempotencyKey, bytes, resolve, reject });
+      this.bufferBytes += bytes;
+
+      if (this.buffer.length >= this.maxBufferSize || this.bufferBytes >= this.maxBufferBytes) {
+        this.flush();
+      } else {
+        this.scheduleFlush();
+      }
+    });
+  }
+
+  /**
+   * Send every buffered event now and wait for all in-flight events to settle
+   */
+  async flush(): Promise<void> {
+    const events = this.takeBuffer();
+    if (events.length > 0) {
+      this.track(this.send(events));
+    }
+    await Promise.all(Array.from(this.pendingFlushes));
+  }
+
+  /**
+   * Stop the flush timer and detach page and process listeners. Buffered events are flushed.
+   */
+  async destroy(): Promise<void> {
+    this.removeListeners.forEach((remove) => remove());
+    this.removeListeners = [];
+    await this.flush();
+  }
+
+  private async send(events: BufferedEvent[]): Promise<void> {
+    await Promise.all(events.map(async (event) => {
+      try {
+        event.resolve(await this.eventService.publishEvent(event.payload, { idempotencyKey: event.idempotencyKey }));
+      } catch (error) {
+        event.reject(handleApiError(error, { idempotencyKey: event.idempotencyKey }));
+      }
+    }));
+  }
+
+  /**
+   * Flush with keepalive requests, which survive page unload. Events whose keepalive request
+   * fails, or where keepalive fetch is unavailable, go through the wrapped service instead,
+   * so the offline queue still catches them.
+   */
+  private flushForUnload() {
+    const baseUrl = this.apiService.getBaseUrl();
+    if (!baseUrl || this.buffer.length === 0) {
+      return;
+    }
+
+    const events = this.takeBuffer();
+    const headers = this.apiService.getRequestHeaders();
+
+    events.forEach((event) => {
+      const eventHeaders = { ...headers, [IDEMPOTENCY_KEY_HEADER]: event.idempotencyKey };
+      const request = sendKeepalive(`${baseUrl}${EVENTS_PATH}`, eventHeaders, JSON.stringify(event.payload));
+      if (!request) {
+        this.track(this.send([event]));
+        return;
+      }
+      // The idempotency key keeps the API from accepting an event twice if the keepalive request did arrive
+      this.track(request.then(
+        (response) => {
+          if (!response.ok) {
+            return this.send([event]);
+          }
+          event.resolve({ code: String(response.status), message: 'Event sent on page unload', idempotencyKey: event.idempotencyKey });
+        },
+        () => this.send([event])
+      ));
+    });
+  }
+
+  private track(sending: Promise<void>) {
+    this.pendingFlushes.add(sending);
+    sending.finally(() => this.pendingFlushes.delete(sending));
+  }
+
+  private takeBuffer(): BufferedEvent[] {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    const events = this.buffer;
+    this.buffer = [];
+    this.bufferBytes = 0;
+    return events;
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush();
+    }, this.flushInterval);
+
+    const timer = this.flushTimer as { unref?: () => void };
+    if (typeof timer.unref === 'function') {
+      timer.unref();
+    }
+  }
+
+  private listenForPageHide() {
+    if (typeof window === 'undefined' || typeof document === 'undefined') {
+      return;
+    }
+
+    const onPageHide = () => this.flushForUnload();
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        this.flushForUnload();
+      }
+    };
+
+    window.addEventListener('pagehide', onPageHide);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    this.removeListeners.push(
+      () => window.removeEventListener('pagehide', onPageHide),
+      () => document.removeEventListener('visibilitychange', onVisibilityChange)
+    );
+  }
+
+  private listenForProcessExit() {
+    if (typeof process === 'undefined' || typeof process.on !== 'function' || typeof window !== 'undefined') {
+      return;
+    }
+
+    // beforeExit still lets asynchronous work run, unlike exit
+    const onBeforeExit = () => {
+      if (this.buffer.length > 0) {
+        this.flush();
+      }
+    };
+
+    process.on('beforeExit', onBeforeExit);
+    this.removeListeners.push(() => process.removeListener('beforeExit', onBeforeExit));
+  }
+}
+
+/**
+ * Send a request that outlives the page. sendBeacon is not used: it cannot set the
+ * Authorization header, so the API would reject it.
+ * @returns The response, or undefined where keepalive fetch is unavailable
+ */
+function sendKeepalive(url: string, headers: Record<string, string>, body: string): Promise<Response> | undefined {
+  if (typeof fetch !== 'function') {
+    return undefined;
+  }
+  return fetch(url, {
+    method: 'POST',
+    keepalive: true,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body,
+  });
+}
+
+function byteLength(value: string): number {
+  if (typeof TextEncoder !== 'undefined') {
+    return new TextEncoder().encode(value).length;
+  }
+  return value.length;
+}
@@ -0,0 +1,284 @@
+import { PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
+import { IdempotencyOptions, PublishEventResult } from '../types';
+import { EventService } from './eventService';
+import { generateId } from '../utils/id';
+import { SDK_NAME, SDK_VERSION } from '../version';
+
+const DEFAULT_SESSION_TIMEOUT = 30 * 60 * 1000;
+const SESSION_STORAGE_KEY = 'towncryer_session';
+const UTM_PARAMETERS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+
+interface Session {
+  id: string;
+  lastActivity: number;
+}
+
+/**
+ * Context added to an event, merged into `data.context`
+ */
+export type EventContext = Record<string, unknown>;
+
+/**
+ * Adds context to published events
+ */
+export interface EventEnricher {
+  /**
+   * Unique name, used to disable or replace the enricher
+   */
+  name: string;
+
+  /**
+   * Context to add to the event, or undefined to add nothing
+   * @param event The event being published
+   */
+  enrich(event: PublishEventPayload): EventContext | undefined;
+}
+
+/**
+ * Names of the built-in enrichers
+ */
+export type BuiltInEnricherName = 'sdk' | 'timestamp' | 'locale' | 'timezone' | 'page' | 'runtime' | 'session';
+
+export interface EventEnrichmentOptions {
+  /**
+   * Built-in enrichers to leave out
+   */
+  disable?: BuiltInEnricherName[];
+  /**
+   * Custom enrichers, applied after the built-in ones; an enricher with a built-in name replaces it
+   */
+  enrichers?: EventEnricher[];
+  /**
+   * Milliseconds of inactivity after which a new session starts (default: 1800000)
+   */
+  sessionTimeout?: number;
+}
+
+/**
+ * Adds the SDK name and version
+ */
+export function sdkEnricher(): EventEnricher {
+  return {
+    name: 'sdk',
+    enrich: () => ({ library: { name: SDK_NAME, version: SDK_VERSION } }),
+  };
+}
+
+/**
+ * Adds the time the event was published, which may be well before it is delivered
+ */
+export function timestampEnricher(): EventEnricher {
+  return {
+    name: 'timestamp',
+    enrich: () => ({ timestamp: new Date().toISOString() }),
+  };
+}
+
+/**
+ * Adds the user's preferred locale
+ */
+export function localeEnricher(): EventEnricher {
+  return {
+    name: 'locale',
+    enrich: () => {
+      const locale = typeof navigator !== 'undefined' && navigator.language
+        ? navigator.language
+        : Intl.DateTimeFormat().resolvedOptions().locale;
+      return locale ? { locale } : undefined;
+    },
+  };
+}
+
+/**
+ * Adds the IANA time zone, e.g. 'Europe/London'
+ */
+export function timezoneEnricher(): EventEnricher {
+  return {
+    name: 'timezone',
+    enrich: () => {
+      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      return timezone ? { timezone } : undefined;
+    },
+  };
+}
+
+/**
+ * Adds the page URL, path, title, referrer and UTM parameters in browsers
+ */
+export function pageEnricher(): EventEnricher {
+  return {
+    name: 'page',
+    enrich: () => {
+      if (typeof window === 'undefined' || typeof document === 'undefined') {
+        return undefined;
+      }
+
+      const search = new URLSearchParams(window.location.search);
+      const campaign: Record<string, string> = {};
+      UTM_PARAMETERS.forEach(parameter => {
+        const value = search.get(parameter);
+        if (value) {
+          campaign[parameter.substring('utm_'.length)] = value;
+        }
+      });
+
+      return {
+        page: {
+          url: window.location.href,
+          path: window.location.pathname,
+          title: document.title,
+          referrer: document.referrer || undefined,
+        },
+        ...(Object.keys(campaign).length > 0 ? { campaign } : {}),
+      };
+    },
+  };
+}
+
+/**
+ * Adds the runtime: the user agent in browsers, the Node version, OS and architecture in Node
+ */
+export function runtimeEnricher(): EventEnricher {
+  return {
+    name: 'runtime',
+    enrich: () => {
+      if (typeof window !== 'undefined' && typeof navigator !== 'undefined') {
+        return { runtime: { name: 'browser', userAgent: navigator.userAgent } };
+      }
+      if (typeof process !== 'undefined' && process.versions?.node) {
+        return { runtime: { name: 'node', version: process.version }, os: { name: process.platform, arch: process.arch } };
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Adds a session ID that changes after a period of inactivity.
+ * Browsers keep the session in `sessionStorage`, so it survives reloads but not closing the tab.
+ * @param timeout Milliseconds of inactivity after which a new session starts
+ */
+export function sessionEnricher(timeout = DEFAULT_SESSION_TIMEOUT): EventEnricher {
+  let session: Session | undefined;
+
+  return {
+    name: 'session',
+    enrich: () => {
+      const now = Date.now();
+      session = session ?? loadSession();
+      if (!session || now - session.lastActivity > timeout) {
+        session = { id: generateId(), lastActivity: now };
+      }
+      session.lastActivity = now;
+      saveSession(session);
+      return { sessionId: session.id };
+    },
+  };
+}
+
+/**
+ * The built-in enrichers, minus the disabled ones
+ * @param options Which built-in enrichers to disable and the session timeout
+ */
+export function createDefaultEnrichers(options: EventEnrichmentOptions = {}): EventEnricher[] {
+  const disabled = options.disable ?? [];
+  return [
+    sdkEnricher(),
+    timestampEnricher(),
+    localeEnricher(),
+    timezoneEnricher(),
+    pageEnricher(),
+    runtimeEnricher(),
+    sessionEnricher(options.sessionTimeout),
+  ].filter(enricher => disabled.indexOf(enricher.name as BuiltInEnricherName) === -1);
+}
+
+/**
+ * Event service that adds context to events before publishing them through another EventService.
+ * Context set by the caller in `data.context` wins over enriched values.
+ */
+export class EnrichingEventService implements EventService {
+  private enrichers: EventEnricher[] = [];
+
+  constructor(
+    private eventService: EventService,
+    options: EventEnrichmentOptions = {},
+  ) {
+    createDefaultEnrichers(options).forEach(enricher => this.addEnricher(enricher));
+    (options.enrichers ?? []).forEach(enricher => this.addEnricher(enricher));
+  }
+
+  /**
+   * Names of the active enrichers, in the order they run
+   */
+  get enricherNames(): string[] {
+    return this.enrichers.map(enricher => enricher.name);
+  }
+
+  /**
+   * Register an enricher, replacing any enricher with the same name
+   * @param enricher Enricher to add
+   */
+  addEnricher(enricher: EventEnricher): void {
+    this.removeEnricher(enricher.name);
+    this.enrichers.push(enricher);
+  }
+
+  /**
+   * Stop running an enricher
+   * @param name Name of the enricher to remove
+   */
+  removeEnricher(name: string): void {
+    this.enrichers = this.enrichers.filter(enricher => enricher.name !== name);
+  }
+
+  /**
+   * Add context to an event and publish it
+   * @param eventPayload Event payload data
+   * @param options Idempotency key for the request
+   */
+  async publishEvent(eventPayload: PublishEventPayload, options?: IdempotencyOptions): Promise<PublishEventResult> {
+    return this.eventService.publishEvent(this.enrich(eventPayload), options);
+  }
+
+  /**
+   * Run the enrichers over an event. A failing enricher is skipped rather than failing the event.
+   * @param eventPayload Event to enrich
+   * @returns A copy of the event with the context merged into `data.context`
+   */
+  enrich(eventPayload: PublishEventPayload): PublishEventPayload {
+    const context: EventContext = {};
+    this.enrichers.forEach(enricher => {
+      try {
+        Object.assign(context, enricher.enrich(eventPayload));
+      } catch (e) {
+        console.warn(`Event enricher '${enricher.name}' failed`, e);
+      }
+    });
+
+    const data = (eventPayload.data ?? {}) as { context?: EventContext };
+    return {
+      ...eventPayload,
+      data: { ...data, context: { ...context, ...data.context } },
+    };
+  }
+}
+
+function loadSession(): Session | undefined {
+  try {
+    const value = typeof sessionStorage !== 'undefined' ? sessionStorage.getItem(SESSION_STORAGE_KEY) : null;
+    return value ? JSON.parse(value) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function saveSession(session: Session): void {
+  try {
+    if (typeof sessionStorage !== 'undefined') {
+      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    }
+  } catch {
+    // Sessions still work in memory when storage is unavailable
+  }
+}
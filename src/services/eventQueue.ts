@@ -0,0 +1,391 @@
+import { PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
+import { generateId } from '../utils/id';
+import { handleApiError } from '../utils/errorHandler';
+import { AuthenticationError } from '../utils/errors';
+
+const DEFAULT_MAX_SIZE = 1000;
+const DEFAULT_MAX_ATTEMPTS = 10;
+const DEFAULT_RETRY_INTERVAL = 30000;
+
+/**
+ * An event waiting in the queue to be delivered
+ */
+export interface QueuedEvent {
+  id: string;
+  payload: PublishEventPayload;
+  idempotencyKey: string;
+  attempts: number;
+  enqueuedAt: number;
+}
+
+/**
+ * Why a queued event was dropped without being delivered
+ * - overflow: the queue was full and the oldest event was evicted
+ * - max_attempts: delivery kept failing and the attempt budget ran out
+ * - rejected: the API permanently rejected the event (e.g. a 4xx response)
+ */
+export type EventDropReason = 'overflow' | 'max_attempts' | 'rejected';
+
+/**
+ * Persistence backend for the event queue
+ */
+export interface EventQueueStore {
+  /**
+   * Load all persisted events, oldest first
+   */
+  load(): Promise<QueuedEvent[]>;
+
+  /**
+   * Replace the persisted events with the given list
+   * @param events Events to persist, oldest first
+   */
+  save(events: QueuedEvent[]): Promise<void>;
+}
+
+export interface EventQueueOptions {
+  /**
+   * Where undelivered events are persisted (default: IndexedDB in browsers, memory elsewhere)
+   */
+  store?: EventQueueStore;
+  /**
+   * Maximum number of events kept; the oldest event is dropped when exceeded (default: 1000)
+   */
+  maxSize?: number;
+  /**
+   * Delivery attempts per event before it is dropped (default: 10)
+   */
+  maxAttempts?: number;
+  /**
+   * Milliseconds to wait before replaying after a failed delivery (default: 30000)
+   */
+  retryInterval?: number;
+  /**
+   * Called whenever an event is dropped without being delivered
+   */
+  onDrop?: (event: QueuedEvent, reason: EventDropReason, error?: unknown) => void;
+}
+
+/**
+ * In-memory store, used where nothing durable is available
+ */
+export class MemoryEventQueueStore implements EventQueueStore {
+  private events: QueuedEvent[] = [];
+
+  async load(): Promise<QueuedEvent[]> {
+    return [...this.events];
+  }
+
+  async save(events: QueuedEvent[]): Promise<void> {
+    this.events = [...events];
+  }
+}
+
+/**
+ * IndexedDB store for browsers
+ */
+export class IndexedDBEventQueueStore implements EventQueueStore {
+  private static readonly OBJECT_STORE = 'eventQueue';
+  private dbPromise?: Promise<IDBDatabase>;
+
+  constructor(
+    private databaseName = 'towncryer',
+    private key = 'events',
+  ) {}
+
+  async load(): Promise<QueuedEvent[]> {
+    const db = await this.open();
+    const events = await this.request<QueuedEvent[] | undefined>(
+      db.transaction(IndexedDBEventQueueStore.OBJECT_STORE, 'readonly')
+        .objectStore(IndexedDBEventQueueStore.OBJECT_STORE)
+        .get(this.key)
+    );
+    return events ?? [];
+  }
+
+  async save(events: QueuedEvent[]): Promise<void> {
+    const db = await this.open();
+    await this.request(
+      db.transaction(IndexedDBEventQueueStore.OBJECT_STORE, 'readwrite')
+        .objectStore(IndexedDBEventQueueStore.OBJECT_STORE)
+        .put(events, this.key)
+    );
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IndexedDBEventQueueStore.OBJECT_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Minimal subset of Node's `fs/promises` needed by {@link FileEventQueueStore}
+ */
+export interface FileSystemLike {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+}
+
+/**
+ * JSON file store for Node. The file system module is injected so browser bundles never reference `fs`.
+ * @example
+ * ```typescript
+ * import { promises as fs } from 'fs';
+ * const store = new FileEventQueueStore('/var/tmp/towncryer-events.json', fs);
+ * ```
+ */
+export class FileEventQueueStore implements EventQueueStore {
+  constructor(
+    private path: string,
+    private fs: FileSystemLike,
+  ) {}
+
+  async load(): Promise<QueuedEvent[]> {
+    try {
+      return JSON.parse(await this.fs.readFile(this.path, 'utf8'));
+    } catch (error) {
+      if (typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async save(events: QueuedEvent[]): Promise<void> {
+    await this.fs.writeFile(this.path, JSON.stringify(events), 'utf8');
+  }
+}
+
+/**
+ * Pick the most durable store available in the current environment
+ */
+export function createDefaultEventQueueStore(): EventQueueStore {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBEventQueueStore();
+  }
+  return new MemoryEventQueueStore();
+}
+
+/**
+ * Whether a failed delivery is worth retrying later: network failures, timeouts, throttling and server errors
+ * @param error The error thrown while sending
+ */
+export function isRetryableDeliveryError(error: unknown): boolean {
+  return handleApiError(error).retryable;
+}
+
+/**
+ * Durable FIFO queue of events that could not be delivered.
+ * Events are persisted to the configured store and replayed in order when connectivity returns,
+ * once the SDK is authenticated.
+ */
+export class PersistentEventQueue {
+  private events: QueuedEvent[] = [];
+  private store: EventQueueStore;
+  private maxSize: number;
+  private maxAttempts: number;
+  private retryInterval: number;
+  private onDrop?: EventQueueOptions['onDrop'];
+  private ready: Promise<void>;
+  private flushing?: Promise<void>;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private onlineListener = () => {
+    this.flush().catch(() => undefined);
+  };
+
+  /**
+   * @param send Delivers one event
+   * @param options Store, limits and drop callback
+   * @param authenticated Resolves once requests can be authenticated, e.g. the SDK's `ready()`;
+   * replay waits for it and tries again later if it rejects
+   */
+  constructor(
+    private send: (payload: PublishEventPayload, idempotencyKey: string) => Promise<unknown>,
+    options: EventQueueOptions = {},
+    private authenticated: () => Promise<unknown> = () => Promise.resolve(),
+  ) {
+    this.store = options.store ?? createDefaultEventQueueStore();
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.retryInterval = options.retryInterval ?? DEFAULT_RETRY_INTERVAL;
+    this.onDrop = options.onDrop;
+
+    this.ready = this.store.load()
+      .then((persisted) => {
+        this.events = [...persisted, ...this.events];
+      })
+      .catch((error) => {
+        console.warn('Failed to load persisted events', error);
+      })
+      .then(() => {
+        if (this.events.length > 0) {
+          this.scheduleRetry(0);
+        }
+      });
+
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      window.addEventListener('online', this.onlineListener);
+    }
+  }
+
+  /**
+   * Number of events waiting to be delivered
+   */
+  get length(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Add an event to the end of the queue
+   * @param payload Event payload to deliver later
+   * @param idempotencyKey Key sent with every delivery attempt (default: generated)
+   */
+  async enqueue(payload: PublishEventPayload, idempotencyKey: string = generateId()): Promise<QueuedEvent> {
+    await this.ready;
+
+    const event: QueuedEvent = {
+      id: generateId(),
+      payload,
+      idempotencyKey,
+      attempts: 0,
+      enqueuedAt: Date.now()
+    };
+    this.events.push(event);
+
+    while (this.events.length > this.maxSize) {
+      this.drop(this.events.shift() as QueuedEvent, 'overflow');
+    }
+
+    await this.persist();
+    this.scheduleRetry(this.retryInterval);
+    return event;
+  }
+
+  /**
+   * Try to deliver every queued event, in order. Stops at the first retryable failure
+   * so later events are never delivered ahead of earlier ones.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.ready
+        .then(() => this.drain())
+        .finally(() => {
+          this.flushing = undefined;
+        });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Stop listening for connectivity changes and cancel pending replays
+   */
+  destroy(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+    if (typeof window !== 'undefined' && typeof window.removeEventListener === 'function') {
+      window.removeEventListener('online', this.onlineListener);
+    }
+  }
+
+  private async drain(): Promise<void> {
+    if (this.events.length === 0) {
+      return;
+    }
+    try {
+      await this.authenticated();
+    } catch {
+      this.scheduleRetry(this.retryInterval);
+      return;
+    }
+
+    while (this.events.length > 0) {
+      if (isOffline()) {
+        this.scheduleRetry(this.retryInterval);
+        return;
+      }
+
+      const event = this.events[0];
+      event.attempts++;
+
+      try {
+        await this.send(event.payload, event.idempotencyKey);
+        this.events.shift();
+      } catch (error) {
+        // A rejected token says nothing about the event; keep it until the SDK is authenticated again
+        const failure = handleApiError(error);
+        if (!failure.retryable && !(failure instanceof AuthenticationError)) {
+          this.events.shift();
+          this.drop(event, 'rejected', error);
+        } else if (event.attempts >= this.maxAttempts) {
+          this.events.shift();
+          this.drop(event, 'max_attempts', error);
+        } else {
+          await this.persist();
+          this.scheduleRetry(this.retryInterval);
+          return;
+        }
+      }
+
+      await this.persist();
+    }
+  }
+
+  private drop(event: QueuedEvent, reason: EventDropReason, error?: unknown) {
+    if (!this.onDrop) {
+      return;
+    }
+    try {
+      this.onDrop(event, reason, error);
+    } catch (callbackError) {
+      console.warn('Event queue drop callback failed', callbackError);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.store.save(this.events);
+    } catch (error) {
+      console.warn('Failed to persist event queue', error);
+    }
+  }
+
+  private scheduleRetry(delay: number) {
+    if (this.retryTimer) {
+      return;
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.flush().catch(() => undefined);
+    }, delay);
+
+    // Never keep a Node process alive just to replay events
+    const timer = this.retryTimer as { unref?: () => void };
+    if (typeof timer.unref === 'function') {
+      timer.unref();
+    }
+  }
+}
+
+/**
+ * Whether the browser reports being offline; always false outside browsers
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
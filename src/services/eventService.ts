@@ -1,7 +1,11 @@
-import { ApiResponse } from '../types';
-import { ApiError, EventsApi, PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
+import { IdempotencyOptions, PublishEventResult } from '../types';
+import { EventsApi, PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
 import { handleApiError } from '../utils/errorHandler';
-import { apiService } from './api';
+import { assertValid, validateEventPayload } from '../utils/validation';
+import { generateId } from '../utils/id';
+import { IDEMPOTENCY_KEY_HEADER } from '../utils/retry';
+import ApiService from './api';
+import { EventQueueOptions, PersistentEventQueue, isOffline, isRetryableDeliveryError } from './eventQueue';
 
 /**
  * Event Service Interface
@@ -10,8 +14,9 @@ export interface EventService {
     /**
      * Publish an event to Towncryer
      * @param eventPayload Event payload data
+     * @param options Idempotency key for the request
      */
-    publishEvent(eventPayload: PublishEventPayload): Promise<ApiResponse|ApiError>;
+    publishEvent(eventPayload: PublishEventPayload, options?: IdempotencyOptions): Promise<PublishEventResult>;
 }
 
 
@@ -19,39 +24,90 @@ export interface EventService {
  * Event implementation using Towncryer API
  */
 export class TowncryerEventService implements EventService {
-  private eventsApi: EventsApi;
-    
-  constructor() {
-    this.eventsApi = apiService.getApi('event');
+  private queue?: PersistentEventQueue;
+
+  /**
+   * @param apiService API service events are sent through
+   * @param queueOptions Offline queue options; no queue when omitted
+   * @param authenticated Resolves once the SDK is authenticated; queued events are replayed after it
+   */
+  constructor(
+        private apiService: ApiService,
+        queueOptions?: EventQueueOptions,
+        authenticated?: () => Promise<unknown>,
+  ) {
+    if (queueOptions) {
+      this.queue = new PersistentEventQueue(
+        (payload, idempotencyKey) => this.eventsApi.accept(payload, {
+          headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey }
+        }),
+        queueOptions,
+        authenticated
+      );
+    }
+  }
+
+  private get eventsApi(): EventsApi {
+    return this.apiService.getApi('event');
   }
     
   /**
      * Publish an event to Towncryer
+     * 
+     * When the offline queue is enabled, events that cannot be delivered right now
+     * (offline, network failure, server error) are queued and resolve with code '202'.
+     * 
      * @param eventPayload Event payload data
-     * @returns Standardized API response
-     * @throws ApiError if the request fails
+     * @param options Idempotency key for the request, kept across retries and queue replays
+     * @returns Standardized API response including the idempotency key used
+     * @throws ValidationError if the event is invalid, before anything is sent
+     * @throws TowncryerError if the request fails
      */
-  async publishEvent(eventPayload: PublishEventPayload): Promise<ApiResponse> {
+  async publishEvent(eventPayload: PublishEventPayload, options: IdempotencyOptions = {}): Promise<PublishEventResult> {
+    assertValid(validateEventPayload(eventPayload), 'event');
+    const idempotencyKey = options.idempotencyKey ?? generateId();
+
+    // Keep delivery order: once something is queued, later events queue behind it
+    if (this.queue && (this.queue.length > 0 || isOffline())) {
+      return this.enqueue(this.queue, eventPayload, idempotencyKey);
+    }
+
     try {
-      const response = await this.eventsApi.accept(eventPayload);
-      if (response.data && typeof response.data === 'object' && 'message' in response.data) {
-        return {
-          code: '200',
-          message: 'Success',
-          data: response.data
-        };
-      }
+      const response = await this.eventsApi.accept(eventPayload, {
+        headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey }
+      });
       return {
         code: '200',
         message: 'Success',
-        data: response.data
+        data: response.data,
+        idempotencyKey
       };
     } catch (error) {
-      const apiError = handleApiError(error);
-      return {
-        code: '500',
-        message: apiError.message || 'An unknown error occurred'
-      };
+      if (this.queue && isRetryableDeliveryError(error)) {
+        return this.enqueue(this.queue, eventPayload, idempotencyKey);
+      }
+      throw handleApiError(error, { idempotencyKey });
     }
   }
+
+  /**
+     * Get the offline event queue, if it was enabled
+     */
+  getQueue(): PersistentEventQueue | undefined {
+    return this.queue;
+  }
+
+  private async enqueue(
+    queue: PersistentEventQueue,
+    eventPayload: PublishEventPayload,
+    idempotencyKey: string
+  ): Promise<PublishEventResult> {
+    const queued = await queue.enqueue(eventPayload, idempotencyKey);
+    return {
+      code: '202',
+      message: 'Event queued for delivery',
+      data: { queueId: queued.id },
+      idempotencyKey
+    };
+  }
 }
@@ -0,0 +1,151 @@
+import { ApiResponse, EventCustomerRequest } from '@towncryerio/towncryer-js-api-client';
+import { EventService } from './eventService';
+import { generateId } from '../utils/id';
+import { ValidationError } from '../utils/errors';
+import { IdentifyTraits } from '../types';
+import { BuiltInEventName, BuiltInEventPayload } from '../events';
+
+const IDENTITY_KEY_PREFIX = 'towncryer_identity';
+
+/**
+ * Who the current visitor is: always an anonymous ID, plus a customer ID once identified
+ */
+export interface Identity {
+  anonymousId: string;
+  customerId?: string;
+}
+
+/**
+ * Synchronous key-value storage for the identity, satisfied by `localStorage`
+ */
+export type IdentityStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+/**
+ * Identity Service Interface
+ */
+export interface IdentityService {
+  /**
+   * The current identity, generating and persisting an anonymous ID on first use
+   */
+  getIdentity(): Identity;
+
+  /**
+   * ID to attribute events to: the customer ID once identified, the anonymous ID before
+   */
+  getDistinctId(): string;
+
+  /**
+   * Identify the visitor as a known customer and merge their anonymous history into it
+   * @param customerId The customer's ID in your system
+   * @param traits Profile fields and other traits to record with the customer
+   */
+  identify(customerId: string, traits?: IdentifyTraits): Promise<ApiResponse>;
+
+  /**
+   * Set the customer ID without publishing an alias event
+   * @param customerId The customer's ID in your system
+   */
+  setCustomerId(customerId: string | undefined): void;
+
+  /**
+   * Forget the customer and start over with a new anonymous ID, e.g. on logout
+   */
+  reset(): void;
+}
+
+/**
+ * Identity Service Implementation, persisting the identity per organisation
+ */
+export class TowncryerIdentityService implements IdentityService {
+  private identity?: Identity;
+  private storageKey: string;
+
+  constructor(
+    private eventService: EventService,
+    private storage: IdentityStorage | undefined = getDefaultIdentityStorage(),
+    organisationId?: string,
+  ) {
+    this.storageKey = organisationId ? `${IDENTITY_KEY_PREFIX}_${organisationId}` : IDENTITY_KEY_PREFIX;
+  }
+
+  getIdentity(): Identity {
+    if (!this.identity) {
+      this.identity = this.load() ?? { anonymousId: generateId() };
+      this.save();
+    }
+    return { ...this.identity };
+  }
+
+  getDistinctId(): string {
+    const identity = this.getIdentity();
+    return identity.customerId || identity.anonymousId;
+  }
+
+  /**
+   * Identify the visitor as a known customer and merge their anonymous history into it
+   * @param customerId The customer's ID in your system
+   * @param traits Profile fields and other traits to record with the customer
+   * @throws ValidationError if the customer ID is missing
+   * @throws TowncryerError if publishing the alias event fails
+   */
+  async identify(customerId: string, traits: IdentifyTraits = {}): Promise<ApiResponse> {
+    if (!customerId) {
+      throw new ValidationError('Customer ID is required to identify a customer');
+    }
+
+    const { anonymousId } = this.getIdentity();
+    this.setCustomerId(customerId);
+
+    const { email, firstName, lastName, phoneNumber, ...otherTraits } = traits;
+    const customer: EventCustomerRequest = { externalId: customerId, email, firstName, lastName, phoneNumber };
+
+    const event: BuiltInEventPayload<typeof BuiltInEventName.CustomerAlias> = {
+      name: BuiltInEventName.CustomerAlias,
+      customer,
+      data: {
+        anonymousId,
+        traits: otherTraits,
+        timestamp: new Date().toISOString()
+      }
+    };
+
+    return this.eventService.publishEvent(event);
+  }
+
+  setCustomerId(customerId: string | undefined): void {
+    this.identity = { ...this.getIdentity(), customerId: customerId || undefined };
+    this.save();
+  }
+
+  reset(): void {
+    this.identity = { anonymousId: generateId() };
+    this.save();
+  }
+
+  private load(): Identity | undefined {
+    try {
+      const value = this.storage?.getItem(this.storageKey);
+      const identity = value ? JSON.parse(value) as Identity : undefined;
+      return identity?.anonymousId ? identity : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(this.identity));
+    } catch (e) {
+      console.warn('Failed to persist identity in local storage', e);
+    }
+  }
+}
+
+function getDefaultIdentityStorage(): IdentityStorage | undefined {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : undefined;
+  } catch {
+    // Accessing localStorage throws when storage is blocked, e.g. in sandboxed iframes
+    return undefined;
+  }
+}
@@ -0,0 +1,273 @@
+import { PushNotification } from '../types';
+import { PushNotificationService, toPushNotification } from './pushNotificationService';
+import { NotificationCache } from './notificationCache';
+import { Emitter, Listener } from '../utils/emitter';
+import { TowncryerError } from '../utils/errors';
+import { handleApiError } from '../utils/errorHandler';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * What the inbox currently shows
+ */
+export interface InboxState {
+  /**
+   * Loaded notifications, newest first
+   */
+  notifications: PushNotification[];
+  /**
+   * Unread notifications among the loaded ones
+   */
+  unreadCount: number;
+  /**
+   * Whether older notifications can be loaded with `loadMore()`
+   */
+  hasMore: boolean;
+  /**
+   * Whether a page is being loaded
+   */
+  loading: boolean;
+}
+
+export interface InboxErrorEvent {
+  error: TowncryerError;
+  /**
+   * Notifications whose optimistic update was rolled back, if any
+   */
+  notificationIds: string[];
+}
+
+/**
+ * Inbox events
+ * - change: the notifications, unread count or loading state changed
+ * - error: loading failed, or an update was rolled back after the API rejected it
+ */
+export interface InboxEvents {
+  change: InboxState;
+  error: InboxErrorEvent;
+}
+
+export interface InboxOptions {
+  /**
+   * Notifications fetched per page (default: 20)
+   */
+  pageSize?: number;
+}
+
+/**
+ * A customer's notification inbox: server history merged with notifications received
+ * while the app is open, de-duplicated by ID and cached locally. Updates apply
+ * immediately and are rolled back if the API rejects them. Marking read is the only update
+ * for now: archiving and deleting wait for the API client to have endpoints for them.
+ * @example
+ * ```typescript
+ * const inbox = towncryer.getInbox();
+ * inbox.on('change', ({ notifications, unreadCount }) => render(notifications, unreadCount));
+ * await inbox.loadMore();
+ * ```
+ */
+export class Inbox {
+  private notifications = new Map<string, PushNotification>();
+  private emitter = new Emitter<InboxEvents>();
+  private nextPage = 0;
+  private more = true;
+  private pending?: Promise<void>;
+  private pageSize: number;
+  private unsubscribe: () => void;
+
+  constructor(
+    private pushService: PushNotificationService,
+    private cache?: NotificationCache,
+    options: InboxOptions = {},
+  ) {
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    (cache?.load() ?? []).forEach(notification => this.merge(notification));
+    this.unsubscribe = pushService.onNotification(notification => {
+      this.merge(notification);
+      this.changed();
+    });
+  }
+
+  /**
+   * A snapshot of what the inbox currently shows
+   */
+  get state(): InboxState {
+    const notifications = this.sorted();
+    return {
+      notifications,
+      unreadCount: notifications.filter(notification => !notification.read).length,
+      hasMore: this.more,
+      loading: this.pending !== undefined,
+    };
+  }
+
+  /**
+   * Subscribe to inbox events
+   * @param event 'change' or 'error'
+   * @param listener Called with the event payload
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof InboxEvents>(event: K, listener: Listener<InboxEvents[K]>): () => void {
+    return this.emitter.on(event, listener);
+  }
+
+  /**
+   * Load the next page of older notifications. Calls made while a page is loading share it.
+   * @throws TowncryerError if the history cannot be loaded
+   */
+  loadMore(): Promise<void> {
+    if (!this.pending && this.more) {
+      this.pending = this.loadPage(this.nextPage);
+      this.changed();
+    }
+    return this.pending ?? Promise.resolve();
+  }
+
+  /**
+   * Reload from the first page, keeping notifications received locally
+   * @throws TowncryerError if the history cannot be loaded
+   */
+  async refresh(): Promise<void> {
+    await this.pending?.catch(() => undefined);
+    this.nextPage = 0;
+    this.more = true;
+    return this.loadMore();
+  }
+
+  /**
+   * Mark a notification as read
+   * @param notificationId Notification ID to mark as read
+   * @throws TowncryerError if the API rejects it; the notification is unread again
+   */
+  async markRead(notificationId: string): Promise<void> {
+    const notification = this.notifications.get(notificationId);
+    if (notification?.read) {
+      return;
+    }
+    await this.update([notificationId], read, () => this.pushService.markRead(notificationId));
+  }
+
+  /**
+   * Mark every loaded notification as read
+   * @throws TowncryerError if some could not be marked; those are unread again
+   */
+  async markAllRead(): Promise<void> {
+    const ids = this.state.notifications.filter(notification => !notification.read).map(notification => notification.id);
+    if (ids.length === 0) {
+      return;
+    }
+
+    const previous = this.apply(ids, read);
+    let failed: string[];
+    try {
+      const result = await this.pushService.markManyRead(ids);
+      failed = result.failed.map(failure => failure.notificationId);
+    } catch (e) {
+      const error = handleApiError(e);
+      this.rollBack(previous, error);
+      throw error;
+    }
+
+    if (failed.length > 0) {
+      const error = new TowncryerError(`Failed to mark ${failed.length} of ${ids.length} notifications as read`);
+      this.rollBack(previous.filter(notification => failed.indexOf(notification.id) !== -1), error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop listening for incoming notifications and stop updating the cache
+   */
+  dispose(): void {
+    this.unsubscribe();
+    this.cache = undefined;
+  }
+
+  private async loadPage(page: number): Promise<void> {
+    try {
+      const history = await this.pushService.getMessageHistory(page, this.pageSize);
+      const items: unknown[] = Array.isArray(history.items) ? history.items : [];
+      items.forEach(item => {
+        const notification = toPushNotification(item);
+        if (notification) {
+          this.merge(notification);
+        }
+      });
+      this.nextPage = page + 1;
+      this.more = history.last !== undefined ? !history.last : items.length === this.pageSize;
+    } catch (e) {
+      const error = handleApiError(e);
+      this.emitter.emit('error', { error, notificationIds: [] });
+      throw error;
+    } finally {
+      this.pending = undefined;
+      this.changed();
+    }
+  }
+
+  /**
+   * Apply a change straight away, then roll it back if the request fails
+   */
+  private async update(
+    ids: string[],
+    change: (notification: PushNotification) => PushNotification,
+    request: () => Promise<void>
+  ): Promise<void> {
+    const previous = this.apply(ids, change);
+    try {
+      await request();
+    } catch (e) {
+      const error = handleApiError(e);
+      this.rollBack(previous, error);
+      throw error;
+    }
+  }
+
+  private apply(ids: string[], change: (notification: PushNotification) => PushNotification): PushNotification[] {
+    const previous: PushNotification[] = [];
+    ids.forEach(id => {
+      const notification = this.notifications.get(id);
+      if (!notification) {
+        return;
+      }
+      previous.push(notification);
+      this.notifications.set(id, change(notification));
+    });
+    this.changed();
+    return previous;
+  }
+
+  private rollBack(previous: PushNotification[], error: TowncryerError): void {
+    previous.forEach(notification => this.notifications.set(notification.id, notification));
+    this.changed();
+    this.emitter.emit('error', { error, notificationIds: previous.map(notification => notification.id) });
+  }
+
+  /**
+   * Add or update a notification. Read sticks, so a stale copy cannot undo it.
+   */
+  private merge(notification: PushNotification): void {
+    const existing = this.notifications.get(notification.id);
+    this.notifications.set(notification.id, existing
+      ? {
+        ...existing,
+        ...notification,
+        read: existing.read || notification.read,
+      }
+      : notification);
+  }
+
+  private changed(): void {
+    const sorted = this.sorted();
+    this.cache?.save(sorted);
+    this.emitter.emit('change', this.state);
+  }
+
+  private sorted(): PushNotification[] {
+    return Array.from(this.notifications.values()).sort((a, b) => b.timestamp - a.timestamp);
+  }
+}
+
+function read(notification: PushNotification): PushNotification {
+  return { ...notification, read: true };
+}
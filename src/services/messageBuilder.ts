@@ -0,0 +1,238 @@
+import {
+  EmailOptions,
+  MessageBuilderOptions,
+  MessageRecipient,
+  MessagesPayload,
+  PushNotificationOptions,
+  SendMessagesResult,
+  SmsChannelOptions
+} from '../types';
+import { MessageService } from './messageService';
+import { generateId } from '../utils/id';
+import { FieldError } from '../utils/errors';
+import { assertValid, validateBulkMessagesPayload } from '../utils/validation';
+
+const DEFAULT_CHUNK_SIZE = 1000;
+
+interface Addressed {
+  address: string;
+  recipient: MessageRecipient;
+}
+
+/**
+ * Sends the requests a MessageBuilder produces, satisfied by the SDK and the MessageService
+ */
+export type MessageSender = Pick<MessageService, 'sendMessages'>;
+
+/**
+ * Builds one message for several channels and recipients, then sends it.
+ * Each channel goes to the recipients that have an address for it, duplicates removed,
+ * and recipient lists longer than the chunk size are split across several requests.
+ * Messages are sent right away; scheduling is out of scope until the API client has scheduling endpoints.
+ * @example
+ * ```typescript
+ * await towncryer.messages()
+ *   .email({ from: { email: 'news@example.com', name: 'News' }, title: 'Hello', content: '<p>Hi</p>' })
+ *   .sms({ from: 'Example', content: 'Hi' })
+ *   .to([{ email: 'ada@example.com', phoneNumber: '+447700900123' }])
+ *   .send();
+ * ```
+ */
+export class MessageBuilder {
+  private emailOptions?: EmailOptions;
+  private smsOptions?: SmsChannelOptions;
+  private pushOptions?: PushNotificationOptions;
+  private recipients: MessageRecipient[] = [];
+  private key: string = generateId();
+  private chunkSize: number;
+
+  constructor(
+    private sender: MessageSender,
+    options: MessageBuilderOptions = {},
+  ) {
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  }
+
+  /**
+   * Send an email to recipients with an email address
+   * @param options Sender, subject and content or template
+   */
+  email(options: EmailOptions): this {
+    this.emailOptions = options;
+    return this;
+  }
+
+  /**
+   * Send an SMS to recipients with a phone number
+   * @param options Sender and content or template
+   */
+  sms(options: SmsChannelOptions): this {
+    this.smsOptions = options;
+    return this;
+  }
+
+  /**
+   * Send a push notification to recipients with a push token
+   * @param options Title and content or template
+   */
+  push(options: PushNotificationOptions): this {
+    this.pushOptions = options;
+    return this;
+  }
+
+  /**
+   * Add recipients; may be called more than once
+   * @param recipients Recipient or recipients to add
+   */
+  to(recipients: MessageRecipient | MessageRecipient[]): this {
+    this.recipients = this.recipients.concat(recipients);
+    return this;
+  }
+
+  /**
+   * Set the idempotency key. Each request uses the key suffixed with its index,
+   * so resending the same builder after a failure does not deliver any request twice.
+   * @param key Idempotency key (default: generated once per builder)
+   */
+  idempotencyKey(key: string): this {
+    this.key = key;
+    return this;
+  }
+
+  /**
+   * Build the request payloads without sending them
+   * @returns One payload per chunk of recipients
+   * @throws ValidationError if a channel is incomplete, has no recipients or a payload is invalid
+   */
+  build(): MessagesPayload[] {
+    const errors: FieldError[] = [];
+    if (!this.emailOptions && !this.smsOptions && !this.pushOptions) {
+      errors.push({ field: 'channels', message: 'must include an email, SMS or push notification' });
+    }
+    if (!(this.chunkSize >= 1)) {
+      errors.push({ field: 'chunkSize', message: 'must be at least 1' });
+    }
+
+    const emails = unique(this.recipients, 'email', email => email.toLowerCase());
+    const phoneNumbers = unique(this.recipients, 'phoneNumber', phoneNumber => phoneNumber);
+    const pushTokens = unique(this.recipients, 'pushToken', token => token);
+
+    if (this.emailOptions) {
+      if (!this.emailOptions.from?.email) {
+        errors.push({ field: 'email.from.email', message: 'is required' });
+      }
+      if (!this.emailOptions.title) {
+        errors.push({ field: 'email.title', message: 'is required' });
+      }
+      requireRecipients(errors, 'email', emails, 'an email address');
+    }
+    if (this.smsOptions) {
+      requireRecipients(errors, 'sms', phoneNumbers, 'a phone number');
+    }
+    if (this.pushOptions) {
+      requireRecipients(errors, 'push', pushTokens, 'a push token');
+    }
+    assertValid(errors, 'message');
+
+    const emailChunks = this.emailOptions ? chunk(emails, this.chunkSize) : [];
+    const smsChunks = this.smsOptions ? chunk(phoneNumbers, this.chunkSize) : [];
+    const pushChunks = this.pushOptions ? chunk(pushTokens, this.chunkSize) : [];
+    const chunkCount = Math.max(emailChunks.length, smsChunks.length, pushChunks.length);
+
+    const payloads: MessagesPayload[] = [];
+    for (let index = 0; index < chunkCount; index++) {
+      const payload: MessagesPayload = {};
+      const emailChunk = emailChunks[index];
+      const smsChunk = smsChunks[index];
+      const pushChunk = pushChunks[index];
+
+      if (this.emailOptions && emailChunk) {
+        payload.emails = [{
+          ...this.emailOptions,
+          recipients: emailChunk.map(({ address, recipient }) => ({
+            email: address,
+            name: recipient.name ?? '',
+            context: recipient.variables,
+          })),
+        }];
+      }
+      if (this.smsOptions && smsChunk) {
+        payload.smses = [{
+          ...this.smsOptions,
+          to: smsChunk.map(({ address, recipient }) => ({
+            phoneNumber: address,
+            context: recipient.variables,
+          })),
+        }];
+      }
+      if (this.pushOptions && pushChunk) {
+        payload.pushNotifications = [{
+          ...this.pushOptions,
+          recipients: pushChunk.map(({ address, recipient }) => ({
+            token: address,
+            context: recipient.variables,
+          })),
+        }];
+      }
+
+      const subject = chunkCount > 1 ? `message (request ${index + 1} of ${chunkCount})` : 'message';
+      assertValid(validateBulkMessagesPayload(payload), subject);
+      payloads.push(payload);
+    }
+    return payloads;
+  }
+
+  /**
+   * Send the message, one request per chunk of recipients, in order.
+   * Every payload is validated before the first request is sent.
+   * @returns One result per request
+   * @throws ValidationError if the message is invalid, before anything is sent
+   * @throws TowncryerError if a request fails; earlier requests have already been sent,
+   * and calling send() again resends only what the API has not accepted
+   */
+  async send(): Promise<SendMessagesResult[]> {
+    const payloads = this.build();
+    const results: SendMessagesResult[] = [];
+    for (let index = 0; index < payloads.length; index++) {
+      const options = { idempotencyKey: payloads.length > 1 ? `${this.key}-${index}` : this.key };
+      results.push(await this.sender.sendMessages(payloads[index], options));
+    }
+    return results;
+  }
+}
+
+// The first recipient with an address wins, so their name and variables are the ones sent
+function unique(
+  recipients: MessageRecipient[],
+  field: 'email' | 'phoneNumber' | 'pushToken',
+  normalise: (address: string) => string
+): Addressed[] {
+  const seen = new Set<string>();
+  const result: Addressed[] = [];
+  recipients.forEach(recipient => {
+    const address = recipient[field]?.trim();
+    if (!address) {
+      return;
+    }
+    const normalised = normalise(address);
+    if (!seen.has(normalised)) {
+      seen.add(normalised);
+      result.push({ address, recipient });
+    }
+  });
+  return result;
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < values.length; start += size) {
+    chunks.push(values.slice(start, start + size));
+  }
+  return chunks;
+}
+
+function requireRecipients(errors: FieldError[], channel: string, addresses: Addressed[], address: string): void {
+  if (addresses.length === 0) {
+    errors.push({ field: `${channel}.recipients`, message: `must include at least one recipient with ${address}` });
+  }
+}
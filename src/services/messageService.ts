@@ -1,5 +1,11 @@
-import { MessagesApi, ScheduleInfo, SendBulkMessagesPayload } from '@towncryerio/towncryer-js-api-client';
-import { apiService } from './api';
+import { MessagesApi, SendBulkMessagesPayload } from '@towncryerio/towncryer-js-api-client';
+import { IdempotencyOptions, MessagesPayload, SendMessagesResult, TemplateMessage } from '../types';
+import { generateId } from '../utils/id';
+import { IDEMPOTENCY_KEY_HEADER } from '../utils/retry';
+import { handleApiError } from '../utils/errorHandler';
+import { assertValid, validateBulkMessagesPayload } from '../utils/validation';
+import { createTemplatePayload } from '../utils/template';
+import ApiService from './api';
 
 /**
  * Message Service Interface
@@ -8,32 +14,65 @@ export interface MessageService {
     /**
      * Send bulk messages (email, push, SMS)
      * @param messages Bulk message options
+     * @param options Idempotency key for the request
      */
-    sendMessages(messages: SendBulkMessagesPayload): Promise<ScheduleInfo>;
+    sendMessages(messages: MessagesPayload, options?: IdempotencyOptions): Promise<SendMessagesResult>;
+
+    /**
+     * Send a stored template, rendered by the API with each recipient's variables
+     * @param message Template, channel and recipients
+     * @param options Idempotency key for the request
+     */
+    sendTemplate(message: TemplateMessage, options?: IdempotencyOptions): Promise<SendMessagesResult>;
 }
 
 /**
  * Message Service Implementation
  */
 export class TowncryerMessageService implements MessageService {
-  private messagesApi: MessagesApi;
-    
-  constructor() {
-    this.messagesApi = apiService.getApi('message');
+  constructor(
+        private apiService: ApiService,
+  ) {}
+
+  private get messagesApi(): MessagesApi {
+    return this.apiService.getApi('message');
   }
     
   /**
      * Send bulk messages
+     * 
+     * The idempotency key stays the same across the SDK's own retries. After a timeout,
+     * resend with the same key to avoid delivering the messages twice.
+     * 
      * @param messages Bulk message options
-     * @returns Response data from the message sending operation
-     * @throws Error if message sending fails
+     * @param options Idempotency key for the request (default: generated)
+     * @returns Response data from the message sending operation, with the idempotency key used
+     * @throws ValidationError if the messages are invalid, before anything is sent
+     * @throws TowncryerError if message sending fails, carrying the idempotency key
      */
-  async sendMessages(messages: SendBulkMessagesPayload): Promise<ScheduleInfo> {
+  async sendMessages(messages: MessagesPayload, options: IdempotencyOptions = {}): Promise<SendMessagesResult> {
+    assertValid(validateBulkMessagesPayload(messages), 'messages');
+    const idempotencyKey = options.idempotencyKey ?? generateId();
     try {
-      const response = await this.messagesApi.sendMessage(messages);
-      return response.data;
+      // The client types recipient context as a byte array, but sends whatever it is given as JSON
+      const response = await this.messagesApi.sendMessage(messages as SendBulkMessagesPayload, {
+        headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey }
+      });
+      return { ...response.data, idempotencyKey };
     } catch (error) {
-      throw new Error(`Failed to send messages: ${error instanceof Error ? error.message : String(error)}`);
+      throw handleApiError(error, { idempotencyKey });
     }
   }
-}
\ No newline at end of file
+
+  /**
+     * Send a stored template, rendered by the API with each recipient's variables
+     * @param message Template, channel and recipients
+     * @param options Idempotency key for the request (default: generated)
+     * @returns The scheduled job, with the idempotency key used
+     * @throws ValidationError if the message is invalid, before anything is sent
+     * @throws TowncryerError if message sending fails, carrying the idempotency key
+     */
+  async sendTemplate(message: TemplateMessage, options?: IdempotencyOptions): Promise<SendMessagesResult> {
+    return this.sendMessages(createTemplatePayload(message), options);
+  }
+}
@@ -0,0 +1,140 @@
+import { PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
+import { IdempotencyOptions, MessagesPayload, PublishEventResult, SendMessagesResult } from '../types';
+import { EventService } from './eventService';
+import { generateId } from '../utils/id';
+import { TowncryerError } from '../utils/errors';
+
+/**
+ * An event about to be published. Middleware may replace `payload` to transform it.
+ */
+export interface EventMiddlewareContext {
+  kind: 'event';
+  payload: PublishEventPayload;
+  idempotencyKey: string;
+}
+
+/**
+ * Messages about to be sent. Middleware may replace `payload` to transform them.
+ */
+export interface MessageMiddlewareContext {
+  kind: 'message';
+  payload: MessagesPayload;
+  idempotencyKey: string;
+}
+
+export type MiddlewareContext = EventMiddlewareContext | MessageMiddlewareContext;
+
+export type MiddlewareResponse = PublishEventResult | SendMessagesResult;
+
+/**
+ * Runs around event publishing and message sending. Call `next()` to continue down the chain
+ * and return its response, possibly transformed. Returning without calling `next()` drops the
+ * payload; throwing rejects the call with the thrown error.
+ * @example
+ * ```typescript
+ * const dropTestUsers: Middleware = async (context, next) => {
+ *   if (context.kind === 'event' && context.payload.customer.email?.endsWith('@test.example')) {
+ *     return;
+ *   }
+ *   return next();
+ * };
+ * ```
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: () => Promise<MiddlewareResponse | undefined>
+) => MiddlewareResponse | undefined | void | Promise<MiddlewareResponse | undefined | void>;
+
+/**
+ * Ordered middleware chain: middleware runs in the order it was added, the first added outermost
+ */
+export class MiddlewarePipeline {
+  private middleware: Middleware[] = [];
+
+  /**
+   * Number of registered middleware
+   */
+  get size(): number {
+    return this.middleware.length;
+  }
+
+  /**
+   * Add middleware to the end of the chain
+   * @param middleware Middleware to add
+   * @returns Function that removes the middleware
+   */
+  use(middleware: Middleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter(existing => existing !== middleware);
+    };
+  }
+
+  /**
+   * Run a payload through the chain and then through the final handler
+   * @param context Payload and its metadata
+   * @param handler Sends the payload once every middleware has called `next()`
+   * @returns The response, or undefined if a middleware dropped the payload
+   */
+  async run<C extends MiddlewareContext, R extends MiddlewareResponse>(
+    context: C,
+    handler: (context: C) => Promise<R>
+  ): Promise<R | undefined> {
+    // Snapshot the chain so middleware added mid-run only affects later calls
+    const chain = this.middleware.slice();
+
+    const dispatch = async (index: number): Promise<R | undefined> => {
+      if (index === chain.length) {
+        return handler(context);
+      }
+
+      let called = false;
+      const next = () => {
+        if (called) {
+          return Promise.reject(new TowncryerError('next() called multiple times'));
+        }
+        called = true;
+        return dispatch(index + 1);
+      };
+
+      const response = await chain[index](context, next);
+      return (response ?? undefined) as R | undefined;
+    };
+
+    return dispatch(0);
+  }
+}
+
+/**
+ * Event service that runs events through a middleware pipeline before publishing them through another EventService.
+ * Events dropped by middleware resolve with code '204' and are never sent.
+ */
+export class MiddlewareEventService implements EventService {
+  constructor(
+    private eventService: EventService,
+    private pipeline: MiddlewarePipeline,
+  ) {}
+
+  /**
+   * Run an event through the middleware and publish it
+   * @param eventPayload Event payload data
+   * @param options Idempotency key for the request (default: generated, so middleware can see it)
+   */
+  async publishEvent(eventPayload: PublishEventPayload, options: IdempotencyOptions = {}): Promise<PublishEventResult> {
+    const context: EventMiddlewareContext = {
+      kind: 'event',
+      payload: eventPayload,
+      idempotencyKey: options.idempotencyKey ?? generateId(),
+    };
+
+    const response = await this.pipeline.run(context, ({ payload, idempotencyKey }) =>
+      this.eventService.publishEvent(payload, { idempotencyKey })
+    );
+
+    return response ?? {
+      code: '204',
+      message: 'Event dropped by middleware',
+      idempotencyKey: context.idempotencyKey
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import { PushNotification } from '../types';
+
+const DEFAULT_CACHE_LIMIT = 50;
+
+/**
+ * Synchronous key-value storage for cached notifications, satisfied by `localStorage`
+ */
+export type NotificationStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/**
+ * A customer's most recent notifications, newest first, kept in local storage
+ */
+export class NotificationCache {
+  private storageKey: string;
+
+  constructor(
+    customerId: string,
+    private storage: NotificationStorage | undefined = getDefaultNotificationStorage(),
+    private limit = DEFAULT_CACHE_LIMIT,
+  ) {
+    this.storageKey = `${customerId}_notifications`;
+  }
+
+  /**
+   * The cached notifications, or none if the cache is empty or unreadable
+   */
+  load(): PushNotification[] {
+    try {
+      const value = this.storage?.getItem(this.storageKey);
+      const notifications = value ? JSON.parse(value) : [];
+      return Array.isArray(notifications) ? notifications : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Replace the cached notifications, keeping only the most recent
+   * @param notifications Notifications, newest first
+   */
+  save(notifications: PushNotification[]): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(notifications.slice(0, this.limit)));
+    } catch (e) {
+      console.warn('Failed to cache notifications in local storage', e);
+    }
+  }
+
+  /**
+   * Add a notification to the front of the cache, replacing any cached copy
+   * @param notification The notification received
+   */
+  add(notification: PushNotification): void {
+    this.save([notification, ...this.load().filter(cached => cached.id !== notification.id)]);
+  }
+
+  /**
+   * Remove every cached notification
+   */
+  clear(): void {
+    try {
+      this.storage?.removeItem(this.storageKey);
+    } catch (e) {
+      console.warn('Failed to clear cached notifications from local storage', e);
+    }
+  }
+}
+
+function getDefaultNotificationStorage(): NotificationStorage | undefined {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : undefined;
+  } catch {
+    // Accessing localStorage throws when storage is blocked, e.g. in sandboxed iframes
+    return undefined;
+  }
+}
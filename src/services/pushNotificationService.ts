@@ -1,13 +1,47 @@
-import { FirebaseConfig, PushNotification, PushNotificationStats } from '../types';
+import {
+  FirebaseConfig,
+  GetStatsOptions,
+  MarkAllReadOptions,
+  MarkReadOptions,
+  MarkReadResult,
+  PushEngagementOptions,
+  PushNotification,
+  PushNotificationStats,
+  WatchStatsOptions
+} from '../types';
 import { FirebaseApp, initializeApp } from 'firebase/app';
-import { getMessaging, getToken, onMessage, isSupported, Messaging, MessagePayload } from 'firebase/messaging';
+import { getMessaging, getToken, onMessage, isSupported, Messaging } from 'firebase/messaging';
 import { getMessaging as getMessagingSw } from 'firebase/messaging/sw';
-import { ApiResponse, ApiError, PublishEventPayload, MessagesApi, PaginatePage } from '@towncryerio/towncryer-js-api-client';
+import { ApiResponse, MessagesApi, PaginatePage } from '@towncryerio/towncryer-js-api-client';
 import { EventService } from './eventService';
-import { apiService } from './api';
+import { BuiltInEventName, BuiltInEventPayload, PushNotificationEngagementEventName } from '../events';
+import ApiService from './api';
 import { handleApiError } from '../utils/errorHandler';
+import { NotInitializedError, TowncryerError, ValidationError } from '../utils/errors';
+import { Emitter, Listener } from '../utils/emitter';
+import { NotificationCache } from './notificationCache';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { toSafeLink } from '../utils/link';
+import { fromMessagePayload, listenToServiceWorker, saveServiceWorkerCustomerId } from './serviceWorkerBridge';
+
+export { fromMessagePayload };
 
 const PUSH_NOTIFICATION_CHANNEL_NAME = 'PushNotification';
+const DEFAULT_MARK_READ_CONCURRENCY = 5;
+const HISTORY_SCAN_PAGE_SIZE = 100;
+const DEFAULT_MARK_ALL_READ_LIMIT = 1000;
+const DEFAULT_STATS_INTERVAL = 60 * 1000;
+
+interface PushNotificationEvents {
+  notification: PushNotification;
+  stats: PushNotificationStats;
+}
+
+// Badging API, not yet in the DOM typings
+interface BadgingNavigator {
+  setAppBadge?(count?: number): Promise<void>;
+  clearAppBadge?(): Promise<void>;
+}
 
 /**
  * Push Notification Service Interface
@@ -24,10 +58,18 @@ export interface PushNotificationService {
   requestPermission(): Promise<boolean>;
 
   /**
-   * Set up handling for incoming notifications
+   * Set up handling for incoming notifications, showing each one as a system notification
    * @param callback Function to call when a notification is received
+   * @returns Function that stops calling the callback
+   */
+  receiveNotifications(onNotificationReceived: (notification: PushNotification) => void): () => void;
+
+  /**
+   * Subscribe to incoming notifications without showing them, e.g. to keep an inbox up to date
+   * @param listener Called with each notification received while the app is in the foreground
+   * @returns Function that removes the listener
    */
-  receiveNotifications(onNotificationReceived: (notification: PushNotification) => void): void;
+  onNotification(listener: Listener<PushNotification>): () => void;
 
   /**
    * Get the message history for a customer
@@ -38,9 +80,17 @@ export interface PushNotificationService {
 
   /**
    * Get notification statistics for a customer
-   * @param customerId Customer ID
+   * @param options How old the stats already held may be before they are fetched again
+   */
+  getStats(options?: GetStatsOptions): Promise<PushNotificationStats>;
+
+  /**
+   * Keep notification statistics up to date, e.g. for an unread badge
+   * @param callback Called with the stats whenever they change
+   * @param options Polling interval, and whether to show the unread count in the title or app badge
+   * @returns Function that stops watching
    */
-  getStats(): Promise<PushNotificationStats>;
+  watchStats(callback: (stats: PushNotificationStats) => void, options?: WatchStatsOptions): () => void;
 
   /**
    * Mark notifications as read
@@ -48,12 +98,36 @@ export interface PushNotificationService {
    */
   markRead(notificationId: string): Promise<void>;
 
+  /**
+   * Mark several notifications as read, reporting failures instead of stopping at the first
+   * @param notificationIds Notification IDs to mark as read
+   * @param options Maximum requests in flight at once
+   */
+  markManyRead(notificationIds: string[], options?: MarkReadOptions): Promise<MarkReadResult>;
+
+  /**
+   * Mark every unread notification among the customer's most recent ones as read
+   * @param options Maximum requests in flight at once, and how many notifications to look through
+   */
+  markAllRead(options?: MarkAllReadOptions): Promise<MarkReadResult>;
+
   /**
    * Register a push notification token for a customer
    * @param customerId Customer ID
    * @param token Push notification token
    */
-  registerToken(customerId: string, token: string): Promise<ApiResponse | ApiError>;
+  registerToken(customerId: string, token: string): Promise<ApiResponse>;
+
+  /**
+   * Switch to another customer, e.g. after login, keeping Firebase and the listeners set up
+   * @param customerId Customer ID
+   */
+  setCustomerId(customerId: string): void;
+
+  /**
+   * Forget the customer and clear their cached notifications, e.g. on logout
+   */
+  reset(): void;
 }
 
 /**
@@ -65,21 +139,32 @@ export class FirebasePushNotificationService implements PushNotificationService
   private firebaseMessagingSw?: Messaging;
   private customerId?: string;
   private eventService: EventService;
-  private messagesApi: MessagesApi;
+  private emitter = new Emitter<PushNotificationEvents>();
+  private stats?: PushNotificationStats;
+  private statsFetchedAt = 0;
+  // Read state of the notifications seen, so the unread count is only lowered for unread ones
+  private readState = new Map<string, boolean>();
+  private unsubscribeFromMessages?: () => void;
+  private unsubscribeFromWorker?: () => void;
 
   constructor(
     private firebaseConfig: FirebaseConfig,
     eventService: EventService,
+    private apiService: ApiService,
     customerId?: string,
+    private engagementOptions: PushEngagementOptions = {},
   ) {
     this.customerId = customerId;
     this.eventService = eventService;
-    this.messagesApi = apiService.getApi('message');
+  }
+
+  private get messagesApi(): MessagesApi {
+    return this.apiService.getApi('message');
   }
 
   /**
      * Initialize Firebase and prepare for push notifications
-     * @throws Error if Firebase initialization fails or if messaging is not supported
+     * @throws TowncryerError if Firebase initialization fails or if messaging is not supported
      */
   async initialize(): Promise<void> {
     try {
@@ -89,11 +174,13 @@ export class FirebasePushNotificationService implements PushNotificationService
       if (isMessagingSupported) {
         this.firebaseMessaging = getMessaging(this.firebaseApp);
         this.firebaseMessagingSw = getMessagingSw(this.firebaseApp);
+        this.listenForMessages(this.firebaseMessaging);
+        this.shareCustomerIdWithWorker();
       } else {
-        throw new Error('Firebase messaging is not supported in this environment');
+        throw new TowncryerError('Firebase messaging is not supported in this environment');
       }
     } catch (error) {
-      throw new Error(`Failed to initialize Firebase: ${error instanceof Error ? error.message : String(error)}`);
+      throw new TowncryerError(`Failed to initialize Firebase: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
     }
   }
 
@@ -103,7 +190,7 @@ export class FirebasePushNotificationService implements PushNotificationService
   async requestPermission(): Promise<boolean> {
     try {
       if (!('Notification' in window)) {
-        throw new Error('This browser does not support desktop notifications');
+        throw new TowncryerError('This browser does not support desktop notifications');
       }
 
       const permission = await Notification.requestPermission();
@@ -115,7 +202,7 @@ export class FirebasePushNotificationService implements PushNotificationService
 
       return permissionGranted;
     } catch (error) {
-      throw new Error(`Failed to request notification permission: ${error instanceof Error ? error.message : String(error)}`);
+      throw new TowncryerError(`Failed to request notification permission: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
     }
   }
 
@@ -125,7 +212,7 @@ export class FirebasePushNotificationService implements PushNotificationService
      */
   private async getAndRegisterToken(): Promise<string | null> {
     if (!this.firebaseMessaging) {
-      throw new Error('Firebase messaging not initialized');
+      throw new NotInitializedError('Firebase messaging not initialized');
     }
 
     const currentToken = await getToken(this.firebaseMessaging, {
@@ -141,37 +228,132 @@ export class FirebasePushNotificationService implements PushNotificationService
   }
 
   /**
-     * Set up handling for incoming notifications
+     * Set up handling for incoming notifications, showing each one as a system notification
      * @param onNotificationReceived Function to call when a notification is received
-     * @throws Error if Firebase messaging is not initialized or if notification setup fails
+     * @returns Function that stops calling the callback
+     * @throws NotInitializedError if Firebase messaging is not initialized
      */
-  receiveNotifications(onNotificationReceived: (notification: PushNotification) => void): void {
+  receiveNotifications(onNotificationReceived: (notification: PushNotification) => void): () => void {
     if (!this.firebaseMessaging) {
-      throw new Error('Firebase messaging not initialized, notifications will not be received');
+      throw new NotInitializedError('Firebase messaging not initialized, notifications will not be received');
     }
 
-    try {
-      onMessage(this.firebaseMessaging, (payload) => {
-        const notification = this.mapFirebaseMessageToNotification(payload);
+    return this.onNotification((notification) => {
+      if (onNotificationReceived) {
+        onNotificationReceived(notification);
+      }
 
-        if (onNotificationReceived) {
-          onNotificationReceived(notification);
-        }
+      if ('Notification' in window && Notification.permission === 'granted') {
+        const notificationOptions = {
+          body: notification.body,
+          icon: notification.imageUrl,
+          data: notification.data,
+          tag: notification.id
+        };
 
-        if ('Notification' in window && Notification.permission === 'granted') {
-          const notificationOptions = {
-            body: notification.body,
-            icon: notification.imageUrl,
-            data: notification.data,
-            tag: notification.id
-          };
+        this.handleEngagement(new Notification(notification.title, notificationOptions), notification);
+      }
+    });
+  }
 
-          new Notification(notification.title, notificationOptions);
-        }
+  /**
+     * Subscribe to incoming notifications without showing them. Notifications arrive once
+     * the service is initialized.
+     * @param listener Called with each notification received while the app is in the foreground
+     * @returns Function that removes the listener
+     */
+  onNotification(listener: Listener<PushNotification>): () => void {
+    return this.emitter.on('notification', listener);
+  }
+
+  /**
+     * Firebase keeps a single foreground message handler, so one is installed here and
+     * every notification is passed on to the listeners
+     * @private
+     */
+  private listenForMessages(messaging: Messaging): void {
+    this.unsubscribeFromMessages?.();
+    this.unsubscribeFromWorker?.();
+    try {
+      this.unsubscribeFromMessages = onMessage(messaging, (payload) => {
+        const notification = fromMessagePayload(payload);
+        this.track(BuiltInEventName.PushNotificationDelivered, notification);
+        this.receive(notification);
       });
     } catch (error) {
-      throw new Error(`Failed to set up notification receiver: ${error instanceof Error ? error.message : String(error)}`);
+      throw new TowncryerError(`Failed to set up notification receiver: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+    // Notifications the service worker received in the background while this page was open;
+    // the worker tracks their delivery
+    this.unsubscribeFromWorker = listenToServiceWorker(message => this.receive(message.notification));
+  }
+
+  private receive(notification: PushNotification): void {
+    this.readState.set(notification.id, notification.read);
+    if (this.customerId) {
+      new NotificationCache(this.customerId).add(notification);
+    }
+    if (this.stats) {
+      this.updateStats(this.stats.total + 1, this.stats.unread + 1);
+    }
+    this.emitter.emit('notification', notification);
+  }
+
+  /**
+     * Track when a notification shown in the page is displayed, clicked or closed, and handle clicks
+     * @private
+     */
+  private handleEngagement(shown: Notification, notification: PushNotification): void {
+    shown.onshow = () => this.track(BuiltInEventName.PushNotificationDisplayed, notification);
+    shown.onclose = () => this.track(BuiltInEventName.PushNotificationClosed, notification);
+    shown.onclick = (event) => {
+      event.preventDefault();
+      this.track(BuiltInEventName.PushNotificationClicked, notification);
+      // Closing it here is part of the click, not a dismissal
+      shown.onclose = null;
+      shown.close();
+
+      if (this.engagementOptions.onClick) {
+        this.engagementOptions.onClick(notification);
+        return;
+      }
+      window.focus();
+      const link = notification.link && toSafeLink(notification.link, window.location.href);
+      if (link) {
+        window.location.assign(link);
+      }
+    };
+  }
+
+  /**
+     * Publish an engagement event for the current customer, unless tracking is turned off.
+     * Failures are logged, as they must not affect how notifications are shown.
+     * @private
+     */
+  private track(name: PushNotificationEngagementEventName, notification: PushNotification): void {
+    if (this.engagementOptions.track === false || !this.customerId) {
+      return;
     }
+    const data = notification.data as Record<string, unknown> | undefined;
+    const eventPayload: BuiltInEventPayload<PushNotificationEngagementEventName> = {
+      name,
+      customer: { externalId: this.customerId },
+      data: {
+        notificationId: notification.id,
+        campaignId: typeof data?.campaignId === 'string' ? data.campaignId : undefined,
+        link: notification.link,
+        timestamp: new Date().toISOString(),
+      },
+    };
+    this.eventService.publishEvent(eventPayload).catch(e => {
+      console.warn(`Failed to track ${name}`, e);
+    });
+  }
+
+  private shareCustomerIdWithWorker(): void {
+    saveServiceWorkerCustomerId(this.customerId).catch(e => {
+      console.warn('Failed to share the customer ID with the service worker', e);
+    });
   }
 
   /**
@@ -179,88 +361,252 @@ export class FirebasePushNotificationService implements PushNotificationService
      * @param page Page number (default: 0)
      * @param size Page size (default: 10)
      */
-  getMessageHistory(page = 0, size = 10): Promise<PaginatePage> {
+  async getMessageHistory(page = 0, size = 10): Promise<PaginatePage> {
     if (!this.customerId) {
-      throw new Error('Customer ID is required to get message history');
+      throw new NotInitializedError('Customer ID is required to get message history');
     }
 
-    return this.messagesApi.listMessagesByCustomerAndChannel(
-      this.customerId,
-      PUSH_NOTIFICATION_CHANNEL_NAME,
-      page,
-      size
-    ).then((response) => response.data);
+    try {
+      const response = await this.messagesApi.listMessagesByCustomerAndChannel(
+        this.customerId,
+        PUSH_NOTIFICATION_CHANNEL_NAME,
+        page,
+        size
+      );
+      const items: unknown[] = Array.isArray(response.data.items) ? response.data.items : [];
+      items.forEach(item => {
+        const notification = toPushNotification(item);
+        if (notification) {
+          this.readState.set(notification.id, notification.read);
+        }
+      });
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error);
+    }
   }
 
   /**
      * Get notification statistics
+     * @param options How old the stats already held may be before they are fetched again (default: always fetch)
      */
-  async getStats(): Promise<PushNotificationStats> {
+  async getStats(options: GetStatsOptions = {}): Promise<PushNotificationStats> {
+    const maxAge = options.maxAge ?? 0;
+    if (this.stats && Date.now() - this.statsFetchedAt <= maxAge) {
+      return { ...this.stats };
+    }
+
     try {
       if (!this.customerId) {
-        throw new Error('Customer ID is required to get notification stats');
+        throw new NotInitializedError('Customer ID is required to get notification stats');
       }
 
       const response = await this.messagesApi.getCustomerMessagesStats(this.customerId, PUSH_NOTIFICATION_CHANNEL_NAME);
 
-      if (!response || !response.data) {
-        return {
-          total: 0,
-          unread: 0,
-          lastUpdated: Date.now()
-        };
-      }
-
-      return {
-        total: response.data.total || 0,
-        unread: (response.data.total || 0) - (response.data.read || 0),
-        lastUpdated: Date.now()
-      };
+      const total = response?.data?.total || 0;
+      const unread = total - (response?.data?.read || 0);
+      this.statsFetchedAt = Date.now();
+      return { ...this.updateStats(total, unread) };
 
     } catch (error) {
-      throw new Error(`Failed to get notification statistics: ${error instanceof Error ? error.message : String(error)}`);
+      throw handleApiError(error);
     }
   }
 
   /**
      * Mark notification as read
      * @param notificationId Notification ID to mark as read
-     * @throws Error if customer ID or notification ID is missing, or if API call fails
+     * @throws NotInitializedError if the customer ID is missing
+     * @throws ValidationError if the notification ID is missing
+     * @throws TowncryerError if the API call fails
      */
   async markRead(notificationId: string): Promise<void> {
     try {
       if (!this.customerId) {
-        throw new Error('Customer ID is required to mark a notification as read');
+        throw new NotInitializedError('Customer ID is required to mark a notification as read');
       }
 
       if (!notificationId) {
-        throw new Error('Notification ID is required');
+        throw new ValidationError('Notification ID is required');
       }
 
       await this.messagesApi.markMessageAsRead(notificationId);
+      this.recordRead([notificationId]);
     } catch (error) {
       throw handleApiError(error);
     }
   }
 
+  /**
+     * Mark several notifications as read, a limited number at a time. A failure for one
+     * notification does not stop the others; check `failed` in the result.
+     * Unread stats held locally are lowered by the number marked that were known to be unread,
+     * from the history or as received; the others are counted when the stats are next fetched.
+     * @param notificationIds Notification IDs to mark as read; duplicates are marked once
+     * @param options Maximum requests in flight at once (default: 5)
+     * @returns The IDs marked and the failures, each with its error
+     * @throws NotInitializedError if the customer ID is missing
+     * @throws ValidationError if a notification ID is missing, before anything is marked
+     */
+  async markManyRead(notificationIds: string[], options: MarkReadOptions = {}): Promise<MarkReadResult> {
+    if (!this.customerId) {
+      throw new NotInitializedError('Customer ID is required to mark notifications as read');
+    }
+    if (notificationIds.some(notificationId => !notificationId)) {
+      throw new ValidationError('Notification ID is required');
+    }
+
+    const ids = notificationIds.filter((notificationId, index) => notificationIds.indexOf(notificationId) === index);
+    const result: MarkReadResult = { succeeded: [], failed: [] };
+    await mapWithConcurrency(ids, options.concurrency ?? DEFAULT_MARK_READ_CONCURRENCY, async (notificationId) => {
+      try {
+        await this.messagesApi.markMessageAsRead(notificationId);
+        result.succeeded.push(notificationId);
+      } catch (error) {
+        result.failed.push({ notificationId, error: handleApiError(error) });
+      }
+    });
+
+    this.recordRead(result.succeeded);
+    return result;
+  }
+
+  /**
+     * Mark every unread notification among the customer's most recent ones as read. There is no
+     * bulk endpoint, so the history is read to find the unread notifications, which are then marked
+     * a limited number at a time. Only the most recent `limit` notifications are looked through,
+     * as each unread one costs a request; older unread notifications stay unread.
+     * @param options Maximum requests in flight at once (default: 5), and how many of the most
+     * recent notifications to look through (default: 1000)
+     * @returns The IDs marked and the failures, each with its error
+     * @throws NotInitializedError if the customer ID is missing
+     * @throws TowncryerError if the history cannot be read
+     */
+  async markAllRead(options: MarkAllReadOptions = {}): Promise<MarkReadResult> {
+    const limit = options.limit ?? DEFAULT_MARK_ALL_READ_LIMIT;
+    const unread: string[] = [];
+    let scanned = 0;
+    let complete = false;
+    for (let page = 0; scanned < limit; page++) {
+      const history = await this.getMessageHistory(page, HISTORY_SCAN_PAGE_SIZE);
+      const items: unknown[] = Array.isArray(history.items) ? history.items : [];
+      items.slice(0, limit - scanned).forEach(item => {
+        const notification = toPushNotification(item);
+        if (notification && !notification.read) {
+          unread.push(notification.id);
+        }
+      });
+      scanned += items.length;
+      const last = history.last !== undefined ? history.last : items.length < HISTORY_SCAN_PAGE_SIZE;
+      if (last || items.length === 0) {
+        complete = scanned <= limit;
+        break;
+      }
+    }
+
+    const result = await this.markManyRead(unread, options);
+    if (this.stats && complete && result.failed.length === 0) {
+      // Everything is read now, whatever the held stats said
+      this.updateStats(this.stats.total, 0);
+    }
+    return result;
+  }
+
+  /**
+     * Keep notification statistics up to date, e.g. for an unread badge. The stats are fetched
+     * now and every interval; in between, notifications received in the foreground add to the
+     * unread count and notifications marked read through this service take away from it.
+     * @param callback Called with the stats whenever they change
+     * @param options Polling interval (default: 60000), and whether to show the unread count in
+     * `document.title` or the app badge
+     * @returns Function that stops watching and restores the title and badge
+     * @example
+     * ```typescript
+     * const stop = pushService.watchStats(({ unread }) => badge.textContent = String(unread), { documentTitle: true });
+     * ```
+     */
+  watchStats(callback: (stats: PushNotificationStats) => void, options: WatchStatsOptions = {}): () => void {
+    const originalTitle = typeof document !== 'undefined' ? document.title : undefined;
+    const formatTitle = typeof options.documentTitle === 'function'
+      ? options.documentTitle
+      : (unread: number, title: string) => unread > 0 ? `(${unread}) ${title}` : title;
+
+    const show = (stats: PushNotificationStats) => {
+      callback({ ...stats });
+      if (options.documentTitle && originalTitle !== undefined) {
+        document.title = formatTitle(stats.unread, originalTitle);
+      }
+      if (options.appBadge) {
+        setAppBadge(stats.unread);
+      }
+    };
+
+    const poll = () => {
+      this.getStats().catch((error: TowncryerError) => {
+        if (options.onError) {
+          options.onError(error);
+        } else {
+          console.warn('Failed to fetch notification stats', error);
+        }
+      });
+    };
+
+    const unsubscribe = this.emitter.on('stats', show);
+    if (this.stats) {
+      show(this.stats);
+    }
+    poll();
+    const timer = setInterval(poll, options.interval ?? DEFAULT_STATS_INTERVAL);
+
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+      if (options.documentTitle && originalTitle !== undefined) {
+        document.title = originalTitle;
+      }
+      if (options.appBadge) {
+        setAppBadge(0);
+      }
+    };
+  }
+
+  private recordRead(notificationIds: string[]): void {
+    const count = notificationIds.filter(notificationId => this.readState.get(notificationId) === false).length;
+    notificationIds.forEach(notificationId => this.readState.set(notificationId, true));
+    if (this.stats && count > 0) {
+      this.updateStats(this.stats.total, Math.max(0, this.stats.unread - count));
+    }
+  }
+
+  private updateStats(total: number, unread: number): PushNotificationStats {
+    if (this.stats && this.stats.total === total && this.stats.unread === unread) {
+      return this.stats;
+    }
+    this.stats = { total, unread, lastUpdated: Date.now() };
+    this.emitter.emit('stats', { ...this.stats });
+    return this.stats;
+  }
+
   /**
      * Register a push notification token for a customer
      * @param customerId Customer ID
      * @param token Push notification token
+     * @throws ValidationError if the customer ID or token is missing
+     * @throws TowncryerError if publishing the registration event fails
      */
   async registerToken(customerId: string, token: string): Promise<ApiResponse> {
     if (!customerId) {
-      throw new Error('Customer ID is required to register a push token');
+      throw new ValidationError('Customer ID is required to register a push token');
     }
 
     if (!token) {
-      throw new Error('Push notification token is required');
+      throw new ValidationError('Push notification token is required');
     }
 
-    this.customerId = customerId;
+    this.setCustomerId(customerId);
 
-    const eventPayload: PublishEventPayload = {
-      name: 'PushNotificationTokenRegisteredEvent',
+    const eventPayload: BuiltInEventPayload<typeof BuiltInEventName.PushNotificationTokenRegistered> = {
+      name: BuiltInEventName.PushNotificationTokenRegistered,
       customer: {
         externalId: customerId,
         firstName: '',
@@ -274,61 +620,73 @@ export class FirebasePushNotificationService implements PushNotificationService
         timestamp: new Date().toISOString()
       }
     };
-    try {
-      const response = await this.eventService.publishEvent(eventPayload);
-      if ('code' in response && 'message' in response) {
-        return response as ApiResponse;
-      }
-      return {
-        code: '200',
-        message: 'Success',
-        data: response
-      };
-    } catch (error) {
-      const apiError = handleApiError(error);
-      const errorResponse: ApiResponse = {
-        code: '500',
-        message: apiError.message || 'Failed to register token'
-      };
-      return errorResponse;
-    }
+
+    return this.eventService.publishEvent(eventPayload);
   }
 
   /**
-     * Map a Firebase message payload to our notification format
-     * @param payload Firebase message payload
-     * @private
+     * Switch to another customer. Firebase, the message handlers and stats watchers stay in place;
+     * the stats and read state held for the previous customer are dropped.
+     * @param customerId Customer ID
      */
-  private mapFirebaseMessageToNotification(payload: MessagePayload): PushNotification {
-    const notification: PushNotification = {
-      id: payload.messageId || `notification-${Date.now()}`,
-      title: payload.notification?.title || '',
-      body: payload.notification?.body || '',
-      data: payload.data || {},
-      imageUrl: payload.notification?.image,
-      timestamp: payload.data?.timestamp ? parseInt(payload.data.timestamp) : Date.now(),
-      read: false
-    };
+  setCustomerId(customerId: string): void {
+    if (customerId === this.customerId) {
+      return;
+    }
+    this.customerId = customerId;
+    this.stats = undefined;
+    this.statsFetchedAt = 0;
+    this.readState.clear();
+    this.shareCustomerIdWithWorker();
+  }
 
+  /**
+     * Forget the customer and clear their cached notifications
+     */
+  reset(): void {
     if (this.customerId) {
-      try {
-        const storageKey = `${this.customerId}_notifications`;
-        const existingNotifications = localStorage.getItem(storageKey);
-        const notifications = existingNotifications ?
-          JSON.parse(existingNotifications) : [];
-
-        notifications.unshift(notification);
-
-        if (notifications.length > 50) {
-          notifications.pop();
-        }
-
-        localStorage.setItem(storageKey, JSON.stringify(notifications));
-      } catch (e) {
-        console.warn('Failed to cache notification in local storage', e);
-      }
+      new NotificationCache(this.customerId).clear();
     }
+    this.customerId = undefined;
+    this.stats = undefined;
+    this.statsFetchedAt = 0;
+    this.readState.clear();
+    this.shareCustomerIdWithWorker();
+  }
+}
 
-    return notification;
+function setAppBadge(count: number): void {
+  const badging = typeof navigator !== 'undefined' ? navigator as BadgingNavigator : undefined;
+  const update = count > 0 ? badging?.setAppBadge?.(count) : badging?.clearAppBadge?.();
+  // The badge is cosmetic; browsers reject it e.g. when the app is not installed
+  update?.catch(() => undefined);
+}
+
+/**
+ * Map a message from the history endpoint, whose items the generated client leaves untyped
+ * @param item An item of the page returned by `getMessageHistory`
+ * @returns The notification, or undefined if the item has no ID
+ */
+export function toPushNotification(item: unknown): PushNotification | undefined {
+  if (typeof item !== 'object' || item === null) {
+    return undefined;
+  }
+  const message = item as Record<string, unknown>;
+  const id = message.id ?? message.messageId;
+  if (id === undefined || id === null || id === '') {
+    return undefined;
   }
-}
\ No newline at end of file
+
+  const sentAt = message.createdAt ?? message.sentAt ?? message.timestamp;
+  const timestamp = typeof sentAt === 'number' ? sentAt : Date.parse(String(sentAt));
+
+  return {
+    id: String(id),
+    title: String(message.title ?? ''),
+    body: String(message.body ?? message.content ?? ''),
+    data: typeof message.data === 'object' && message.data !== null ? message.data : undefined,
+    imageUrl: typeof message.imageUrl === 'string' ? message.imageUrl : undefined,
+    timestamp: isNaN(timestamp) ? 0 : timestamp,
+    read: Boolean(message.read ?? message.readAt ?? message.status === 'read'),
+  };
+}
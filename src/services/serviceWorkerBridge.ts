@@ -0,0 +1,88 @@
+import { MessagePayload } from 'firebase/messaging';
+import { PushNotification } from '../types';
+
+const CACHE_NAME = 'towncryer';
+// Cache Storage is shared by the page and its service worker and survives the worker being stopped
+const CUSTOMER_ID_URL = '/__towncryer/customer-id';
+
+/**
+ * Posted by the service worker to open pages when a notification arrives in the background
+ */
+export interface ServiceWorkerNotificationMessage {
+  type: 'towncryer:notification';
+  notification: PushNotification;
+}
+
+export type ServiceWorkerMessage = ServiceWorkerNotificationMessage;
+
+/**
+ * Whether a message posted by a service worker came from the Towncryer service worker
+ */
+export function isServiceWorkerMessage(data: unknown): data is ServiceWorkerMessage {
+  return typeof data === 'object' && data !== null && (data as ServiceWorkerMessage).type === 'towncryer:notification';
+}
+
+/**
+ * Let the service worker know which customer notifications are shown for, so the events it
+ * records are attributed to them
+ * @param customerId Customer ID, or undefined to forget it, e.g. on logout
+ */
+export async function saveServiceWorkerCustomerId(customerId: string | undefined): Promise<void> {
+  if (typeof caches === 'undefined') {
+    return;
+  }
+  const cache = await caches.open(CACHE_NAME);
+  if (customerId) {
+    await cache.put(CUSTOMER_ID_URL, new Response(customerId));
+  } else {
+    await cache.delete(CUSTOMER_ID_URL);
+  }
+}
+
+/**
+ * The customer ID saved by the page, if any
+ */
+export async function loadServiceWorkerCustomerId(): Promise<string | undefined> {
+  if (typeof caches === 'undefined') {
+    return undefined;
+  }
+  const cache = await caches.open(CACHE_NAME);
+  const response = await cache.match(CUSTOMER_ID_URL);
+  return response ? (await response.text()) || undefined : undefined;
+}
+
+/**
+ * Listen in the page for messages from the Towncryer service worker
+ * @param listener Called with each message
+ * @returns Function that removes the listener
+ */
+export function listenToServiceWorker(listener: (message: ServiceWorkerMessage) => void): () => void {
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker) {
+    return () => undefined;
+  }
+  const onMessage = (event: MessageEvent) => {
+    if (isServiceWorkerMessage(event.data)) {
+      listener(event.data);
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', onMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+}
+
+/**
+ * Map a Firebase message payload to our notification format. Data-only messages may carry
+ * the title, body and image in their data instead.
+ * @param payload Firebase message payload
+ */
+export function fromMessagePayload(payload: MessagePayload): PushNotification {
+  return {
+    id: payload.data?.notificationId || payload.messageId || `notification-${Date.now()}`,
+    title: payload.notification?.title || payload.data?.title || '',
+    body: payload.notification?.body || payload.data?.body || '',
+    data: payload.data || {},
+    imageUrl: payload.notification?.image || payload.data?.image,
+    link: payload.fcmOptions?.link || payload.data?.link || undefined,
+    timestamp: payload.data?.timestamp ? parseInt(payload.data.timestamp) : Date.now(),
+    read: false
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Access and refresh token pair as persisted by a {@link TokenStore}
+ */
+export interface StoredTokens {
+  accessToken?: string;
+  refreshToken?: string;
+}
+
+/**
+ * Persistence backend for authentication tokens, so a session survives reloads and cold starts
+ */
+export interface TokenStore {
+  /**
+   * Load the tokens saved under a key
+   * @param key Storage key, namespaced per organisation
+   */
+  load(key: string): Promise<StoredTokens | undefined>;
+
+  /**
+   * Save tokens under a key, replacing any saved before
+   * @param key Storage key, namespaced per organisation
+   * @param tokens Tokens to persist
+   */
+  save(key: string, tokens: StoredTokens): Promise<void>;
+
+  /**
+   * Remove the tokens saved under a key
+   * @param key Storage key, namespaced per organisation
+   */
+  clear(key: string): Promise<void>;
+}
+
+const TOKEN_KEY_PREFIX = 'towncryer_tokens';
+
+/**
+ * Storage key for the tokens of an organisation
+ * @param organisationId Organisation ID, if any
+ */
+export function getTokenStoreKey(organisationId?: string): string {
+  return organisationId ? `${TOKEN_KEY_PREFIX}_${organisationId}` : TOKEN_KEY_PREFIX;
+}
+
+/**
+ * In-memory store; tokens are lost when the process or page goes away
+ */
+export class MemoryTokenStore implements TokenStore {
+  private tokens = new Map<string, StoredTokens>();
+
+  async load(key: string): Promise<StoredTokens | undefined> {
+    const tokens = this.tokens.get(key);
+    return tokens ? { ...tokens } : undefined;
+  }
+
+  async save(key: string, tokens: StoredTokens): Promise<void> {
+    this.tokens.set(key, { ...tokens });
+  }
+
+  async clear(key: string): Promise<void> {
+    this.tokens.delete(key);
+  }
+}
+
+/**
+ * Store backed by a Web Storage area, such as `localStorage` or `sessionStorage`
+ */
+export class WebStorageTokenStore implements TokenStore {
+  constructor(private storage: Storage) {}
+
+  async load(key: string): Promise<StoredTokens | undefined> {
+    const value = this.storage.getItem(key);
+    if (!value) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(value) as StoredTokens;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async save(key: string, tokens: StoredTokens): Promise<void> {
+    this.storage.setItem(key, JSON.stringify(tokens));
+  }
+
+  async clear(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * Store backed by `localStorage`; tokens survive reloads and browser restarts
+ */
+export class LocalStorageTokenStore extends WebStorageTokenStore {
+  constructor() {
+    super(localStorage);
+  }
+}
+
+/**
+ * Store backed by `sessionStorage`; tokens survive reloads but not closing the tab
+ */
+export class SessionStorageTokenStore extends WebStorageTokenStore {
+  constructor() {
+    super(sessionStorage);
+  }
+}
+
+export interface CookieTokenStoreOptions {
+  /**
+   * Cookie path (default: '/')
+   */
+  path?: string;
+  domain?: string;
+  /**
+   * Cookie lifetime in seconds (default: session cookie)
+   */
+  maxAge?: number;
+  /**
+   * Only send the cookie over HTTPS (default: true)
+   */
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * Store backed by `document.cookie`, e.g. to share a session across subdomains
+ */
+export class CookieTokenStore implements TokenStore {
+  constructor(private options: CookieTokenStoreOptions = {}) {}
+
+  async load(key: string): Promise<StoredTokens | undefined> {
+    const prefix = `${encodeURIComponent(key)}=`;
+    const cookie = document.cookie
+      .split('; ')
+      .find(entry => entry.startsWith(prefix));
+    if (!cookie) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(decodeURIComponent(cookie.substring(prefix.length))) as StoredTokens;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async save(key: string, tokens: StoredTokens): Promise<void> {
+    document.cookie = this.serialize(key, JSON.stringify(tokens), this.options.maxAge);
+  }
+
+  async clear(key: string): Promise<void> {
+    document.cookie = this.serialize(key, '', 0);
+  }
+
+  private serialize(key: string, value: string, maxAge?: number): string {
+    const attributes = [
+      `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+      `path=${this.options.path ?? '/'}`,
+    ];
+    if (this.options.domain) {
+      attributes.push(`domain=${this.options.domain}`);
+    }
+    if (maxAge !== undefined) {
+      attributes.push(`max-age=${maxAge}`);
+    }
+    if (this.options.secure ?? true) {
+      attributes.push('secure');
+    }
+    if (this.options.sameSite) {
+      attributes.push(`samesite=${this.options.sameSite}`);
+    }
+    return attributes.join('; ');
+  }
+}
@@ -1,7 +1,9 @@
 import { ApiResponse, ContactFormData, EmailSubscriptionOptions } from '../types';
 import { EventService } from './eventService';
-import { ApiError, EventCustomerRequest, PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
-import { handleApiError } from '../utils/errorHandler';
+import { IdentityService } from './identityService';
+import { EventCustomerRequest } from '@towncryerio/towncryer-js-api-client';
+import { BuiltInEventName, BuiltInEventPayload } from '../events';
+import { assertValid, validateContactFormData, validateEmailSubscription } from '../utils/validation';
 
 /**
  * Utility Service Interface
@@ -34,7 +36,7 @@ export interface UtilityService {
      * });
      * ```
      */
-    submitContactForm(formData: ContactFormData): Promise<ApiResponse|ApiError>;
+    submitContactForm(formData: ContactFormData): Promise<ApiResponse>;
     
     /**
      * Subscribe an email address to communications
@@ -61,7 +63,7 @@ export interface UtilityService {
      * });
      * ```
      */
-    subscribeToEmails(email: string, options?: EmailSubscriptionOptions): Promise<ApiResponse|ApiError>;
+    subscribeToEmails(email: string, options?: EmailSubscriptionOptions): Promise<ApiResponse>;
 }
 
 /**
@@ -73,8 +75,13 @@ export interface UtilityService {
  * the EventService.
  */
 export class TowncryerUtilityService implements UtilityService {
+  /**
+     * @param eventService Service events are published through
+     * @param identityService Attributes submissions to the current visitor; without it the email is used as customer ID
+     */
   constructor(
         private eventService: EventService,
+        private identityService?: IdentityService,
   ) {}
     
   /**
@@ -86,44 +93,29 @@ export class TowncryerUtilityService implements UtilityService {
      * 
      * @param formData - Object containing contact form data
      * @returns Promise resolving to an ApiResponse
-     * @throws ApiError if the event publishing fails
+     * @throws ValidationError if the form data is invalid, before anything is sent
+     * @throws TowncryerError if the event publishing fails
      */
   async submitContactForm(formData: ContactFormData): Promise<ApiResponse> {
-    try {
-      const customer: EventCustomerRequest = {
-        externalId: formData.email,
-        email: formData.email,
-        firstName: formData.name.split(' ')[0] || '',
-        lastName: formData.name.split(' ').slice(1).join(' ') || ''
-      };
-            
-      const event: PublishEventPayload = {
-        name: 'contact_form.submitted',
-        customer: customer,
-        data: {
-          subject: formData.subject,
-          message: formData.message,
-          ...formData.metadata
-        }
-      };
-            
-      const response = await this.eventService.publishEvent(event);
-      // Ensure the response matches the expected ApiResponse type
-      if ('code' in response && 'message' in response) {
-        return response as ApiResponse;
+    assertValid(validateContactFormData(formData), 'contact form');
+    const customer: EventCustomerRequest = {
+      externalId: this.identityService?.getDistinctId() ?? formData.email,
+      email: formData.email,
+      firstName: formData.name.split(' ')[0] || '',
+      lastName: formData.name.split(' ').slice(1).join(' ') || ''
+    };
+        
+    const event: BuiltInEventPayload<typeof BuiltInEventName.ContactFormSubmitted> = {
+      name: BuiltInEventName.ContactFormSubmitted,
+      customer: customer,
+      data: {
+        subject: formData.subject,
+        message: formData.message,
+        ...formData.metadata
       }
-      return {
-        code: '200',
-        message: 'Success',
-        data: response
-      };
-    } catch (error) {
-      const apiError = handleApiError(error);
-      return {
-        code: '500',
-        message: apiError.message || 'Failed to process request'
-      };
-    }
+    };
+        
+    return this.eventService.publishEvent(event);
   }
     
   /**
@@ -136,44 +128,29 @@ export class TowncryerUtilityService implements UtilityService {
      * @param email - Email address to subscribe
      * @param options - Optional subscription configuration with additional details
      * @returns Promise resolving to an ApiResponse
-     * @throws ApiError if the event publishing fails
+     * @throws ValidationError if the email or options are invalid, before anything is sent
+     * @throws TowncryerError if the event publishing fails
      */
   async subscribeToEmails(email: string, options: EmailSubscriptionOptions = {}): Promise<ApiResponse> {
-    try {
-      const customer: EventCustomerRequest = {
-        externalId: email,
-        email: email,
-        firstName: options.firstName || '',
-        lastName: options.lastName || ''
-      };
-            
-      const event: PublishEventPayload = {
-        name: 'email.subscription',
-        customer: customer,
-        data: {
-          source: options.source || 'website',
-          preferences: options.preferences || ['all'],
-          timestamp: new Date().toISOString(),
-          ...options.metadata
-        }
-      };
-            
-      const response = await this.eventService.publishEvent(event);
-      // Ensure the response matches the expected ApiResponse type
-      if ('code' in response && 'message' in response) {
-        return response as ApiResponse;
+    assertValid(validateEmailSubscription(email, options), 'email subscription');
+    const customer: EventCustomerRequest = {
+      externalId: this.identityService?.getDistinctId() ?? email,
+      email: email,
+      firstName: options.firstName || '',
+      lastName: options.lastName || ''
+    };
+        
+    const event: BuiltInEventPayload<typeof BuiltInEventName.EmailSubscription> = {
+      name: BuiltInEventName.EmailSubscription,
+      customer: customer,
+      data: {
+        source: options.source || 'website',
+        preferences: options.preferences || ['all'],
+        timestamp: new Date().toISOString(),
+        ...options.metadata
       }
-      return {
-        code: '200',
-        message: 'Success',
-        data: response
-      };
-    } catch (error) {
-      const apiError = handleApiError(error);
-      return {
-        code: '500',
-        message: apiError.message || 'Failed to process subscription'
-      };
-    }
+    };
+        
+    return this.eventService.publishEvent(event);
   }
-}
\ No newline at end of file
+}
@@ -1,58 +1,126 @@
 import { 
+  AuthEvents,
   Config, 
   ContactFormData,
   EmailSubscriptionOptions,
-  FirebaseConfig
+  FirebaseConfig,
+  IdempotencyOptions,
+  IdentifyTraits,
+  MessageBuilderOptions,
+  MessagesPayload,
+  PublishEventResult,
+  SdkStatus,
+  SendMessagesResult,
+  TemplateMessage
 } from './types';
 
 import { EventService, TowncryerEventService } from './services/eventService';
+import { BufferingEventService } from './services/eventBuffer';
+import { EnrichingEventService } from './services/eventEnrichment';
+import { MessageMiddlewareContext, Middleware, MiddlewareEventService, MiddlewarePipeline } from './services/middleware';
+import { PersistentEventQueue } from './services/eventQueue';
+import { NotInitializedError } from './utils/errors';
+import { handleApiError } from './utils/errorHandler';
+import { EventCatalog, EventPayload } from './events';
+import { generateId } from './utils/id';
+import { createTemplatePayload } from './utils/template';
+import { SafeApi, createSafeApi } from './utils/result';
+import { Listener } from './utils/emitter';
 import { CustomerService, TowncryerCustomerService } from './services/customerService';
 import { MessageService, TowncryerMessageService } from './services/messageService';
+import { MessageBuilder } from './services/messageBuilder';
 import { PushNotificationService, FirebasePushNotificationService } from './services/pushNotificationService';
 import { UtilityService, TowncryerUtilityService } from './services/utilityService';
-import { ApiResponse, ApiError, SendBulkMessagesPayload, PublishEventPayload, CreateCustomerRequest, ScheduleInfo } from '@towncryerio/towncryer-js-api-client';
-import { apiService } from './services/api';
+import { IdentityService, TowncryerIdentityService } from './services/identityService';
+import { Inbox, InboxOptions } from './services/inbox';
+import { NotificationCache } from './services/notificationCache';
+import { ApiResponse, PublishEventPayload, CreateCustomerRequest } from '@towncryerio/towncryer-js-api-client';
+import ApiService, { DefaultAxiosInstanceFactory, resolveBaseUrl } from './services/api';
 
 /**
  * Towncryer SDK Interface
+ * @typeParam Events Catalog of your event names and their `data` shapes; untyped by default
  */
-export interface TowncryerSDK {
+export interface TowncryerSDK<Events extends EventCatalog<Events> = Record<string, object>> {
+    // Lifecycle
+    readonly status: SdkStatus;
+    ready(): Promise<void>;
+
     // Customer methods
-    createCustomer(customer: CreateCustomerRequest): Promise<ApiResponse|ApiError>;
+    createCustomer(customer: CreateCustomerRequest): Promise<ApiResponse>;
     
     // Event methods
-    publishEvent(event: PublishEventPayload): Promise<ApiResponse|ApiError>;
+    publishEvent(event: EventPayload<Events>, options?: IdempotencyOptions): Promise<PublishEventResult>;
+    flushEvents(): Promise<void>;
     
     // Message methods
-    sendMessages(messages: SendBulkMessagesPayload): Promise<ScheduleInfo>;
+    sendMessages(messages: MessagesPayload, options?: IdempotencyOptions): Promise<SendMessagesResult>;
+    sendTemplate(message: TemplateMessage, options?: IdempotencyOptions): Promise<SendMessagesResult>;
+    messages(options?: MessageBuilderOptions): MessageBuilder;
     
     // Utility methods
-    submitContactForm(formData: ContactFormData): Promise<ApiResponse|ApiError>;
-    subscribeToEmails(email: string, options?: EmailSubscriptionOptions): Promise<ApiResponse|ApiError>;
+    submitContactForm(formData: ContactFormData): Promise<ApiResponse>;
+    subscribeToEmails(email: string, options?: EmailSubscriptionOptions): Promise<ApiResponse>;
     
     // Token management
     setAccessToken(token: string): void;
     setRefreshToken(token: string): void;
+    on<K extends keyof AuthEvents>(event: K, listener: Listener<AuthEvents[K]>): () => void;
+
+    // Middleware
+    use(middleware: Middleware): () => void;
 
+    // Identity
     setCustomerId(customerId: string): void;
+    identify(customerId: string, traits?: IdentifyTraits): Promise<ApiResponse>;
+    getAnonymousId(): string;
+    reset(): void;
+
+    getApiService(): ApiService;
+    getEventQueue(): PersistentEventQueue;
+    getEventEnricher(): EnrichingEventService;
     
     // Push notification methods
     initialize(): void;
-    registerPushToken(customerId: string, token: string): Promise<ApiResponse|ApiError>;
+    registerPushToken(customerId: string, token: string): Promise<ApiResponse>;
     getPushNotificationService(): PushNotificationService;
+    getInbox(options?: InboxOptions): Inbox;
 }
 
 /**
  * Towncryer SDK - Main class for interacting with the Towncryer API
+ * @typeParam Events Catalog of your event names and their `data` shapes, checked by `publishEvent`
+ * @example
+ * ```typescript
+ * interface AppEvents {
+ *   'order.completed': { orderId: string; total: number };
+ *   'trial.started': { plan: 'pro' | 'team' };
+ * }
+ *
+ * const towncryer = new Towncryer<AppEvents>(config);
+ * await towncryer.publishEvent({ name: 'order.completed', customer, data: { orderId: 'o-1', total: 42 } });
+ * ```
  */
-export class Towncryer implements TowncryerSDK {
+export class Towncryer<Events extends EventCatalog<Events> = Record<string, object>> implements TowncryerSDK<Events> {
+  /**
+   * The same methods, returning `{ ok: true, data } | { ok: false, error }` instead of throwing
+   */
+  readonly safe: SafeApi<TowncryerSDK<Events>>;
   private config: Config;
+  private apiService: ApiService;
   private pushNotifications?: PushNotificationService;
-  private eventService: EventService;
+  private inbox?: Inbox;
+  private eventService: TowncryerEventService;
+  private eventBuffer?: BufferingEventService;
+  private eventEnricher?: EnrichingEventService;
+  private middleware = new MiddlewarePipeline();
+  private eventMiddleware: MiddlewareEventService;
   private customerService: CustomerService;
   private messageService: MessageService;
   private utilityService: UtilityService;
-  private customerId: string;
+  private identityService: IdentityService;
+  private currentStatus: SdkStatus = 'initializing';
+  private readyPromise: Promise<void>;
 
   /**
      * Initialize the Towncryer SDK
@@ -60,71 +128,160 @@ export class Towncryer implements TowncryerSDK {
      */
   constructor(config: Config) {
     this.config = config;
-    apiService.setBaseUrl('https://staging-api.towncryer.io/api/v1');
+    this.safe = createSafeApi<TowncryerSDK<Events>>(this);
+    this.apiService = new ApiService(config.axiosInstanceFactory ?? new DefaultAxiosInstanceFactory());
+    this.apiService.setBaseUrl(resolveBaseUrl(config.environment, config.baseUrl));
+    if (config.retry !== undefined) {
+      this.apiService.setRetryPolicy(config.retry);
+    }
+    if (config.authConfig.refreshLeeway !== undefined) {
+      this.apiService.setRefreshLeeway(config.authConfig.refreshLeeway);
+    }
+    this.apiService.setTokenStore(config.authConfig.tokenStore);
     
-    if (config.authConfig.accessToken) {
-      if (config.authConfig.apiKey) {
-        console.warn('Both accessToken and apiKey provided. Using accessToken and ignoring apiKey.');
-      }
-      this.initializeWithToken(
-        config.authConfig.accessToken,
-        config.authConfig.refreshToken,
-        config.organisationId
+    if (config.authConfig.accessToken && config.authConfig.apiKey) {
+      console.warn('Both accessToken and apiKey provided. Using accessToken and ignoring apiKey.');
+    }
+    this.readyPromise = this.authenticate();
+         
+    this.eventService = new TowncryerEventService(
+      this.apiService,
+      config.eventQueue === true ? {} : config.eventQueue || undefined,
+      () => this.ready()
+    );
+    if (config.eventBuffering) {
+      this.eventBuffer = new BufferingEventService(
+        this.eventService,
+        this.apiService,
+        config.eventBuffering === true ? {} : config.eventBuffering
       );
-    } else if (config.authConfig.apiKey) {
-      this.initializeWithApiKey(
-        config.authConfig.apiKey,
-        config.organisationId
+    }
+    this.eventMiddleware = new MiddlewareEventService(this.eventBuffer ?? this.eventService, this.middleware);
+    if (config.eventContext) {
+      this.eventEnricher = new EnrichingEventService(
+        this.eventMiddleware,
+        config.eventContext === true ? {} : config.eventContext
       );
-    } else if (config.organisationId) {
-      apiService.setOrganisationId(config.organisationId);
     }
-         
-    this.eventService = new TowncryerEventService();
-    this.customerId = config.customerId ?? '';
+    this.identityService = new TowncryerIdentityService(this.eventPublisher, undefined, config.organisationId);
+    if (config.customerId) {
+      this.identityService.setCustomerId(config.customerId);
+    }
         
     if (config.firebase !== null || Object.keys(config.firebase).length > 0) {
       this.pushNotifications = this.constructFirebase(
         config.firebase ?? {} as FirebaseConfig);
     }
 
-    this.customerService = new TowncryerCustomerService();
-    this.messageService = new TowncryerMessageService();
-    this.utilityService = new TowncryerUtilityService(this.eventService);
+    this.customerService = new TowncryerCustomerService(this.apiService);
+    this.messageService = new TowncryerMessageService(this.apiService);
+    this.utilityService = new TowncryerUtilityService(this.eventPublisher, this.identityService);
   }
   
+  /**
+     * Create an SDK instance and wait until it is authenticated
+     * @param config Configuration options
+     * @throws TowncryerError if authentication fails, e.g. AuthenticationError for an invalid API key
+     * @example
+     * ```typescript
+     * const towncryer = await Towncryer.create({ authConfig: { apiKey: 'your-api-key' } });
+     * ```
+     */
+  static async create<Events extends EventCatalog<Events> = Record<string, object>>(config: Config): Promise<Towncryer<Events>> {
+    const towncryer = new Towncryer<Events>(config);
+    await towncryer.ready();
+    return towncryer;
+  }
+
+  /**
+     * Authentication state: calls made while initializing are held back until it settles
+     */
+  get status(): SdkStatus {
+    return this.currentStatus;
+  }
+
+  /**
+     * Wait until the SDK is authenticated. After a failed login, calling it again, or making
+     * any API call, logs in again.
+     * @throws TowncryerError if authentication failed
+     */
+  ready(): Promise<void> {
+    if (this.currentStatus === 'failed') {
+      this.currentStatus = 'initializing';
+      this.readyPromise = this.authenticate();
+    }
+    return this.readyPromise;
+  }
+
+  private authenticate(): Promise<void> {
+    const { authConfig, organisationId } = this.config;
+    let authentication: Promise<unknown>;
+    if (authConfig.accessToken) {
+      authentication = this.initializeWithToken(authConfig.accessToken, authConfig.refreshToken, organisationId);
+    } else if (authConfig.apiKey) {
+      authentication = this.initializeWithApiKey(authConfig.apiKey, organisationId);
+    } else {
+      if (organisationId) {
+        this.apiService.setOrganisationId(organisationId);
+      }
+      authentication = this.apiService.restoreTokens()
+        .catch((error: Error) => {
+          console.error('Failed to restore stored tokens:', error);
+        });
+    }
+    const ready = authentication.then(
+      () => {
+        this.currentStatus = 'ready';
+      },
+      (error: unknown) => {
+        this.currentStatus = 'failed';
+        throw handleApiError(error);
+      }
+    );
+    // Failures surface through ready() and queued calls, not as unhandled rejections
+    ready.catch(() => undefined);
+    return ready;
+  }
+
   private initializeWithToken(
     accessToken: string,
     refreshToken?: string,
     organisationId?: string
-  ) {
+  ): Promise<void> {
     if (organisationId) {
-      apiService.setTokenAndOrganisationId(accessToken, organisationId);
+      this.apiService.setTokenAndOrganisationId(accessToken, organisationId);
     } else {
-      apiService.setToken(accessToken);
+      this.apiService.setToken(accessToken);
     }
     
     if (refreshToken) {
-      apiService.setRefreshToken(refreshToken);
+      this.apiService.setRefreshToken(refreshToken);
     }
+    return this.apiService.persistTokens();
   }
   
-  private initializeWithApiKey(apiKey: string, organisationId?: string) {
+  private initializeWithApiKey(apiKey: string, organisationId?: string): Promise<void> {
     if (organisationId) {
-      apiService.setOrganisationId(organisationId);
+      this.apiService.setOrganisationId(organisationId);
     }
     
-    apiService.setApiKey(apiKey)
-      .catch((error: Error) => {
-        console.error('Failed to initialize with API key:', error);
-      });
+    return this.apiService.setApiKey(apiKey, true);
+  }
+
+  /**
+     * The event service events are published through: enrichment (when enabled), middleware, then buffering (when enabled)
+     */
+  private get eventPublisher(): EventService {
+    return this.eventEnricher ?? this.eventMiddleware;
   }
 
   constructFirebase(config: FirebaseConfig): FirebasePushNotificationService {
     return new FirebasePushNotificationService(
       config,
-      this.eventService,
+      this.eventPublisher,
+      this.apiService,
       this.customerId,
+      this.config.pushEngagement,
     );
   }
 
@@ -132,7 +289,8 @@ export class Towncryer implements TowncryerSDK {
      * Create a new customer
      * @param customer Customer data
      */
-  async createCustomer(customer: CreateCustomerRequest): Promise<ApiResponse|ApiError> {
+  async createCustomer(customer: CreateCustomerRequest): Promise<ApiResponse> {
+    await this.ready();
     return this.customerService.createCustomer(customer);
   }
 
@@ -142,17 +300,47 @@ export class Towncryer implements TowncryerSDK {
   initialize(): void {
     // Initialize Firebase for push notifications
     if (!this.pushNotifications) {
-      throw new Error('Push notifications not initialized');
+      throw new NotInitializedError('Push notifications not initialized');
     }
     this.pushNotifications.initialize();
   }
 
   /**
      * Publish an event to Towncryer
-     * @param event Event data
+     * @param event Event data; with an event catalog, `data` must match the shape declared for `name`
+     * @param options Idempotency key for the request (default: generated)
      */
-  async publishEvent(event: PublishEventPayload): Promise<ApiResponse|ApiError> {
-    return this.eventService.publishEvent(event);
+  async publishEvent(event: EventPayload<Events>, options?: IdempotencyOptions): Promise<PublishEventResult> {
+    await this.ready();
+    // Every catalog event is a PublishEventPayload; the compiler cannot see that through the generic
+    return this.eventPublisher.publishEvent(this.withIdentity(event as PublishEventPayload), options);
+  }
+
+  /**
+     * Attribute events without a customer ID to the current visitor
+     */
+  private withIdentity(event: PublishEventPayload): PublishEventPayload {
+    if (event.customer?.externalId) {
+      return event;
+    }
+    return {
+      ...event,
+      customer: { ...event.customer, externalId: this.identityService.getDistinctId() },
+    };
+  }
+
+  /**
+     * Send buffered events and replay queued events now
+     */
+  async flushEvents(): Promise<void> {
+    await this.ready();
+    if (this.eventBuffer) {
+      await this.eventBuffer.flush();
+    }
+    const queue = this.eventService.getQueue();
+    if (queue) {
+      await queue.flush();
+    }
   }
 
   /**
@@ -160,27 +348,109 @@ export class Towncryer implements TowncryerSDK {
      * @param customerId Customer ID
      * @param token Push notification token
      */
-  async registerPushToken(customerId: string, token: string): Promise<ApiResponse|ApiError> {
+  async registerPushToken(customerId: string, token: string): Promise<ApiResponse> {
+    await this.ready();
     // Delegate to the push notification service
     if (!this.pushNotifications) {
-      throw new Error('Push notifications not initialized');
+      throw new NotInitializedError('Push notifications not initialized');
     }
     return this.pushNotifications.registerToken(customerId, token);
   }
 
   /**
-     * Send bulk messages (emails, push notifications, SMS)
+     * Send bulk messages (emails, push notifications, SMS) through the middleware chain
      * @param messages Message options
+     * @param options Idempotency key for the request (default: generated)
+     * @returns The scheduled job, or only the idempotency key if middleware dropped the messages
+     */
+  async sendMessages(messages: MessagesPayload, options?: IdempotencyOptions): Promise<SendMessagesResult> {
+    await this.ready();
+    return this.runMessageMiddleware(messages, options, (payload, idempotencyKey) =>
+      this.messageService.sendMessages(payload, { idempotencyKey })
+    );
+  }
+
+  /**
+     * Send a stored template through the middleware chain, rendered by the API with each recipient's variables.
+     * Use `renderPreview` to check a template locally first.
+     * @param message Template, channel and recipients
+     * @param options Idempotency key for the request (default: generated)
+     * @returns The scheduled job, or only the idempotency key if middleware dropped the messages
+     * @example
+     * ```typescript
+     * await towncryer.sendTemplate({
+     *   channel: 'email',
+     *   templateId: 'order-shipped',
+     *   from: { email: 'orders@example.com', name: 'Example Shop' },
+     *   title: 'Order {{ order.id }} has shipped',
+     *   recipients: [{ email: 'ada@example.com', name: 'Ada', variables: { order: { id: 'A-1001' } } }]
+     * });
+     * ```
+     */
+  async sendTemplate(message: TemplateMessage, options?: IdempotencyOptions): Promise<SendMessagesResult> {
+    await this.ready();
+    return this.runMessageMiddleware(createTemplatePayload(message), options, (payload, idempotencyKey) =>
+      this.messageService.sendMessages(payload, { idempotencyKey })
+    );
+  }
+
+  /**
+     * Start building a message for one or more channels. Requests it sends go through the middleware chain.
+     * @param options Maximum recipients per channel in one request
+     * @example
+     * ```typescript
+     * const results = await towncryer.messages()
+     *   .email({ from: { email: 'news@example.com', name: 'News' }, title: 'Our launch', templateId: 'launch' })
+     *   .push({ title: 'Our launch', templateId: 'launch-push' })
+     *   .to(subscribers)
+     *   .send();
+     * ```
+     */
+  messages(options?: MessageBuilderOptions): MessageBuilder {
+    return new MessageBuilder(this, options);
+  }
+
+  /**
+     * Add middleware around event publishing and message sending, e.g. to redact PII,
+     * rename events or drop test traffic. Middleware runs in the order it was added.
+     * Events run through it after context enrichment and before buffering.
+     * @param middleware Middleware to add
+     * @returns Function that removes the middleware
+     * @example
+     * ```typescript
+     * towncryer.use(async (context, next) => {
+     *   if (context.kind === 'event' && context.payload.name === 'signup') {
+     *     context.payload = { ...context.payload, name: 'customer.signed_up' };
+     *   }
+     *   return next();
+     * });
+     * ```
      */
-  async sendMessages(messages: SendBulkMessagesPayload): Promise<ScheduleInfo> {
-    return this.messageService.sendMessages(messages);
+  use(middleware: Middleware): () => void {
+    return this.middleware.use(middleware);
+  }
+
+  private async runMessageMiddleware(
+    messages: MessagesPayload,
+    options: IdempotencyOptions | undefined,
+    send: (payload: MessagesPayload, idempotencyKey: string) => Promise<SendMessagesResult>
+  ): Promise<SendMessagesResult> {
+    const context: MessageMiddlewareContext = {
+      kind: 'message',
+      payload: messages,
+      idempotencyKey: options?.idempotencyKey ?? generateId(),
+    };
+    const response = await this.middleware.run(context, ({ payload, idempotencyKey }) => send(payload, idempotencyKey));
+    // Messages dropped by middleware are never sent, so there is no job to report
+    return response ?? { idempotencyKey: context.idempotencyKey };
   }
     
   /**
      * Submit contact form data
      * @param formData Contact form data including name, email, subject, and message
      */
-  async submitContactForm(formData: ContactFormData): Promise<ApiResponse|ApiError> {
+  async submitContactForm(formData: ContactFormData): Promise<ApiResponse> {
+    await this.ready();
     return this.utilityService.submitContactForm(formData);
   }
     
@@ -189,7 +459,8 @@ export class Towncryer implements TowncryerSDK {
      * @param email Email address to subscribe
      * @param options Additional subscription options like preferences and source
      */
-  async subscribeToEmails(email: string, options?: EmailSubscriptionOptions): Promise<ApiResponse|ApiError> {
+  async subscribeToEmails(email: string, options?: EmailSubscriptionOptions): Promise<ApiResponse> {
+    await this.ready();
     return this.utilityService.subscribeToEmails(email, options);
   }
 
@@ -198,17 +469,65 @@ export class Towncryer implements TowncryerSDK {
      */
   getPushNotificationService(): PushNotificationService {
     if (!this.pushNotifications) {
-      throw new Error('Push notifications not initialized');
+      throw new NotInitializedError('Push notifications not initialized');
     }
     return this.pushNotifications;
   }
 
+  /**
+     * Get the current customer's notification inbox. The same inbox is returned until
+     * the customer changes or `reset()` is called.
+     * @param options Page size, used when the inbox is created
+     * @throws NotInitializedError if push notifications are not initialized or there is no customer ID
+     */
+  getInbox(options?: InboxOptions): Inbox {
+    if (!this.pushNotifications) {
+      throw new NotInitializedError('Push notifications not initialized');
+    }
+    if (!this.customerId) {
+      throw new NotInitializedError('Customer ID is required to open the inbox');
+    }
+    this.inbox = this.inbox ?? new Inbox(this.pushNotifications, new NotificationCache(this.customerId), options);
+    return this.inbox;
+  }
+
+  /**
+     * Get access to the offline event queue to inspect its length or flush it
+     * @throws NotInitializedError if the event queue was not enabled in the config
+     */
+  getEventQueue(): PersistentEventQueue {
+    const queue = this.eventService.getQueue();
+    if (!queue) {
+      throw new NotInitializedError('Event queue not enabled');
+    }
+    return queue;
+  }
+
+  /**
+     * Get access to event enrichment to add or remove enrichers at runtime
+     * @throws NotInitializedError if event context was not enabled in the config
+     */
+  getEventEnricher(): EnrichingEventService {
+    if (!this.eventEnricher) {
+      throw new NotInitializedError('Event context not enabled');
+    }
+    return this.eventEnricher;
+  }
+
+  /**
+     * Get access to the underlying API service, e.g. to switch environment at runtime
+     */
+  getApiService(): ApiService {
+    return this.apiService;
+  }
+
   /**
      * Set or update the access token after initialization
      * @param token The access token to use for API requests
      */
   setAccessToken(token: string): void {
-    apiService.setToken(token);
+    this.apiService.setToken(token);
+    this.apiService.persistTokens();
   }
 
   /**
@@ -216,13 +535,81 @@ export class Towncryer implements TowncryerSDK {
      * @param token The refresh token to use for token refresh
      */
   setRefreshToken(token: string): void {
-    apiService.setRefreshToken(token);
+    this.apiService.setRefreshToken(token);
+    this.apiService.persistTokens();
+  }
+
+  /**
+     * Subscribe to authentication lifecycle events
+     * @param event 'tokenRefreshed', 'refreshFailed' or 'unauthenticated'
+     * @param listener Called with the event payload
+     * @returns Function that removes the listener
+     * @example
+     * ```typescript
+     * towncryer.on('tokenRefreshed', ({ accessToken, refreshToken }) => {
+     *   localStorage.setItem('tokens', JSON.stringify({ accessToken, refreshToken }));
+     * });
+     * ```
+     */
+  on<K extends keyof AuthEvents>(event: K, listener: Listener<AuthEvents[K]>): () => void {
+    return this.apiService.on(event, listener);
   }
 
   setCustomerId(customerId: string): void {
-    this.customerId = customerId;
-    if (this.customerId !== '') {
-      this.pushNotifications = this.constructFirebase(this.config.firebase ?? {} as FirebaseConfig);
+    const previous = this.customerId;
+    this.identityService.setCustomerId(customerId);
+    this.updatePushNotifications(previous);
+  }
+
+  /**
+     * Identify the visitor as a known customer, e.g. after login. Events published
+     * before, attributed to the anonymous ID, are merged into the customer.
+     * @param customerId The customer's ID in your system
+     * @param traits Profile fields such as email and name, plus any custom traits
+     */
+  async identify(customerId: string, traits?: IdentifyTraits): Promise<ApiResponse> {
+    await this.ready();
+    const previous = this.customerId;
+    const identified = this.identityService.identify(customerId, traits);
+    this.updatePushNotifications(previous);
+    return identified;
+  }
+
+  /**
+     * The ID events are attributed to until the visitor is identified
+     */
+  getAnonymousId(): string {
+    return this.identityService.getIdentity().anonymousId;
+  }
+
+  /**
+     * Forget the current customer, e.g. on logout: clears the customer ID and cached
+     * notifications, and starts over with a new anonymous ID
+     */
+  reset(): void {
+    this.closeInbox();
+    this.pushNotifications?.reset();
+    this.identityService.reset();
+  }
+
+  private get customerId(): string {
+    return this.identityService.getIdentity().customerId ?? '';
+  }
+
+  private closeInbox() {
+    this.inbox?.dispose();
+    this.inbox = undefined;
+  }
+
+  /**
+     * Point the push notification service at the current customer. It is updated in place, so
+     * Firebase and the listeners already set up keep working; the inbox belongs to the previous
+     * customer and is closed.
+     */
+  private updatePushNotifications(previousCustomerId: string) {
+    if (this.customerId !== '' && this.customerId !== previousCustomerId) {
+      this.closeInbox();
+      this.pushNotifications?.setCustomerId(this.customerId);
     }
   }
 }
@@ -1,14 +1,106 @@
+import { AxiosInstanceFactory } from './services/api';
+import { EventQueueOptions } from './services/eventQueue';
+import { EventBufferOptions } from './services/eventBuffer';
+import { EventEnrichmentOptions } from './services/eventEnrichment';
+import { RetryPolicy } from './utils/retry';
+import {
+  EmailFrom,
+  EmailRecipient,
+  ScheduleInfo,
+  SendEmailPayload,
+  SendPushNotificationPayload,
+  SendPushNotificationRecipient,
+  SendSMSPayload,
+  SendSMSRecipient
+} from '@towncryerio/towncryer-js-api-client';
+import { TowncryerError } from './utils/errors';
+import { TokenStore } from './services/tokenStore';
+
 export interface AuthConfig {
     apiKey?: string;
     accessToken?: string;
     refreshToken?: string;
+    /**
+     * Milliseconds before access token expiry to refresh it proactively, or false to only
+     * refresh after a 401 (default: 60000)
+     */
+    refreshLeeway?: number | false;
+    /**
+     * Where tokens are persisted so a session survives reloads and cold starts (default: memory).
+     * Saved tokens are restored on startup and take precedence over logging in with `apiKey`.
+     */
+    tokenStore?: TokenStore;
+}
+
+export interface TokenRefreshedEvent {
+    accessToken: string;
+    refreshToken?: string;
+    /**
+     * Expiry of the new access token as a millisecond timestamp, when known
+     */
+    expiresAt?: number;
+}
+
+export interface AuthErrorEvent {
+    error: TowncryerError;
+}
+
+/**
+ * Authentication lifecycle events emitted by the SDK
+ * - tokenRefreshed: new tokens were obtained, by a refresh or by logging in again with the API key;
+ *   persist them to restore the session later
+ * - refreshFailed: a token refresh attempt failed
+ * - unauthenticated: no valid credentials are left; the user has to sign in again
+ */
+export interface AuthEvents {
+    tokenRefreshed: TokenRefreshedEvent;
+    refreshFailed: AuthErrorEvent;
+    unauthenticated: AuthErrorEvent;
 }
 
+export type Environment = 'production' | 'staging' | 'local';
+
+/**
+ * Authentication state of an SDK instance
+ * - initializing: logging in or restoring stored tokens; API calls are held until this settles
+ * - ready: authenticated, or no credentials were needed
+ * - failed: authentication failed; held API calls reject with the error, and the next call or `ready()` logs in again
+ */
+export type SdkStatus = 'initializing' | 'ready' | 'failed';
+
 export interface Config {
+    environment?: Environment;
+    baseUrl?: string;
     organisationId?: string;
     customerId?: string;
     authConfig: AuthConfig;
     firebase?: FirebaseConfig;
+    /**
+     * How push notifications shown in the page report engagement and handle clicks.
+     * Delivered, displayed, clicked and closed events are published by default.
+     */
+    pushEngagement?: PushEngagementOptions;
+    axiosInstanceFactory?: AxiosInstanceFactory;
+    /**
+     * Persist events that cannot be delivered and replay them when connectivity returns.
+     * Pass `true` for defaults or an options object. Disabled by default.
+     */
+    eventQueue?: boolean | EventQueueOptions;
+    /**
+     * Buffer published events and flush them by count, size or interval. Each event is still
+     * sent in its own request, up to `flushInterval` later than without buffering.
+     * Pass `true` for defaults or an options object. Disabled by default.
+     */
+    eventBuffering?: boolean | EventBufferOptions;
+    /**
+     * Add context such as SDK version, locale, time zone, page, runtime and session ID to events.
+     * Pass `true` for all built-in enrichers or an options object. Disabled by default.
+     */
+    eventContext?: boolean | EventEnrichmentOptions;
+    /**
+     * Overrides for the retry policy applied to API requests, or false to disable retries
+     */
+    retry?: Partial<RetryPolicy> | false;
 }
 
 export interface FirebaseConfig {
@@ -29,16 +121,175 @@ export interface ApiResponse {
     data?: object;
 }
 
+export interface IdempotencyOptions {
+    /**
+     * Key sent as the Idempotency-Key header; generated when omitted.
+     * Reuse it when resending the same operation so the API can de-duplicate it.
+     */
+    idempotencyKey?: string;
+}
+
+export interface PublishEventResult extends ApiResponse {
+    idempotencyKey?: string;
+}
+
+export interface SendMessagesResult extends ScheduleInfo {
+    idempotencyKey: string;
+}
+
 export interface ScheduleResponse {
     id: string;
     status: string;
 }
 
+/**
+ * Email channel of a message built with `towncryer.messages()`
+ */
+export interface EmailOptions {
+    from: EmailFrom;
+    /**
+     * Subject line
+     */
+    title: string;
+    content?: string;
+    templateId?: string;
+}
+
 export interface SMSOptions {
     body: string;
     recipients: string[];
 }
 
+/**
+ * SMS channel of a message built with `towncryer.messages()`
+ */
+export interface SmsChannelOptions {
+    /**
+     * Sender ID or number
+     */
+    from: string;
+    content?: string;
+    templateId?: string;
+}
+
+/**
+ * Push notification channel of a message built with `towncryer.messages()`
+ */
+export interface PushNotificationOptions {
+    title?: string;
+    content?: string;
+    templateId?: string;
+}
+
+/**
+ * Someone to message; each channel is sent to the recipients that have an address for it
+ */
+export interface MessageRecipient {
+    email?: string;
+    name?: string;
+    phoneNumber?: string;
+    pushToken?: string;
+    /**
+     * Values for the template's placeholders, for this recipient only
+     */
+    variables?: TemplateVariables;
+}
+
+/**
+ * Values for template placeholders; nested objects are addressed with dots, e.g. `{{ order.total }}`
+ */
+export type TemplateVariables = Record<string, unknown>;
+
+/**
+ * A recipient's template variables. The API takes them as raw JSON, which the generated
+ * client describes as a byte array, so that form is accepted too.
+ */
+export type RecipientContext = TemplateVariables | number[];
+
+type WithRecipientContext<T> = Omit<T, 'context'> & { context?: RecipientContext };
+
+/**
+ * Messages to send: the API client's `SendBulkMessagesPayload`, with each recipient's
+ * context typed as template variables
+ */
+export interface MessagesPayload {
+    emails?: Array<Omit<SendEmailPayload, 'recipients'> & { recipients: Array<WithRecipientContext<EmailRecipient>> }>;
+    pushNotifications?: Array<Omit<SendPushNotificationPayload, 'recipients'> & {
+        recipients: Array<WithRecipientContext<SendPushNotificationRecipient>>;
+    }>;
+    smses?: Array<Omit<SendSMSPayload, 'to'> & { to: Array<WithRecipientContext<SendSMSRecipient>> }>;
+}
+
+/**
+ * Template content to render locally
+ */
+export interface MessageTemplate {
+    subject?: string;
+    body: string;
+}
+
+export interface RenderedTemplate {
+    subject?: string;
+    body: string;
+    /**
+     * Placeholders with no value and no fallback, rendered as empty strings
+     */
+    missingVariables: string[];
+}
+
+interface TemplateRecipient {
+    /**
+     * Values for the template's placeholders, for this recipient only
+     */
+    variables?: TemplateVariables;
+}
+
+/**
+ * A stored template sent to recipients on one channel, with per-recipient variables
+ */
+export type TemplateMessage =
+    | {
+        channel: 'email';
+        templateId: string;
+        from: EmailFrom;
+        /**
+         * Subject line; may contain placeholders
+         */
+        title: string;
+        recipients: (TemplateRecipient & { email: string; name?: string })[];
+    }
+    | {
+        channel: 'sms';
+        templateId: string;
+        from: string;
+        recipients: (TemplateRecipient & { phoneNumber: string })[];
+    }
+    | {
+        channel: 'push';
+        templateId: string;
+        title?: string;
+        recipients: (TemplateRecipient & { token: string })[];
+    };
+
+export interface MessageBuilderOptions {
+    /**
+     * Maximum recipients per channel in one request; larger lists are split across requests (default: 1000)
+     */
+    chunkSize?: number;
+}
+
+/**
+ * Traits recorded when identifying a customer; profile fields are set on the customer,
+ * any others are sent along with the alias event
+ */
+export interface IdentifyTraits {
+    email?: string;
+    firstName?: string;
+    lastName?: string;
+    phoneNumber?: string;
+    [trait: string]: unknown;
+}
+
 // Contact Form Data Interface
 export interface ContactFormData {
     name: string;
@@ -66,10 +317,87 @@ export interface PushNotification {
     imageUrl?: string;
     timestamp: number;
     read: boolean;
+    /**
+     * Deep link to open when the notification is clicked, from `fcmOptions.link` or a `link` data field.
+     * Only http(s) links to the app's own origin are opened.
+     */
+    link?: string;
 }
 
 export interface PushNotificationStats {
     total: number;
     unread: number;
+    /**
+     * When the counts last changed, fetched or updated locally, as a millisecond timestamp
+     */
     lastUpdated: number;
 }
+
+export interface WatchStatsOptions {
+    /**
+     * Milliseconds between fetches of the stats; changes in between come from incoming
+     * notifications and notifications marked read (default: 60000)
+     */
+    interval?: number;
+    /**
+     * Prefix `document.title` with the unread count, e.g. "(3) Inbox", or format the title yourself.
+     * The original title is restored when watching stops.
+     */
+    documentTitle?: boolean | ((unread: number, title: string) => string);
+    /**
+     * Show the unread count on the installed app's icon where the Badging API is supported
+     */
+    appBadge?: boolean;
+    /**
+     * Called when fetching the stats fails; watching carries on (default: log a warning)
+     */
+    onError?: (error: TowncryerError) => void;
+}
+
+export interface PushEngagementOptions {
+    /**
+     * Publish `push_notification.delivered`, `.displayed`, `.clicked` and `.closed` events
+     * for the current customer (default: true)
+     */
+    track?: boolean;
+    /**
+     * Called when a notification shown by `receiveNotifications` is clicked, instead of focusing
+     * the page and opening the notification's link. The click is still tracked.
+     */
+    onClick?: (notification: PushNotification) => void;
+}
+
+export interface GetStatsOptions {
+    /**
+     * Return the stats already held if they were fetched at most this many milliseconds ago;
+     * they are kept up to date locally as notifications are marked read (default: 0, always fetch)
+     */
+    maxAge?: number;
+}
+
+export interface MarkReadOptions {
+    /**
+     * Maximum requests in flight at once (default: 5)
+     */
+    concurrency?: number;
+}
+
+export interface MarkAllReadOptions extends MarkReadOptions {
+    /**
+     * How many of the most recent notifications to look through for unread ones (default: 1000)
+     */
+    limit?: number;
+}
+
+export interface MarkReadFailure {
+    notificationId: string;
+    error: TowncryerError;
+}
+
+/**
+ * Outcome of marking several notifications as read; a failure for one does not stop the others
+ */
+export interface MarkReadResult {
+    succeeded: string[];
+    failed: MarkReadFailure[];
+}
@@ -0,0 +1,51 @@
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter. `Events` maps each event name to its payload type.
+ */
+export class Emitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Array<Listener<Events[K]>> } = {};
+
+  /**
+   * Subscribe to an event
+   * @param event Event name
+   * @param listener Called with the event payload
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    (this.listeners[event] ??= []).push(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener added with {@link on}
+   * @param event Event name
+   * @param listener The listener to remove
+   */
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event] = this.listeners[event]?.filter((existing) => existing !== listener);
+  }
+
+  /**
+   * Call every listener of an event. A throwing listener does not stop the others.
+   * @param event Event name
+   * @param payload Event payload
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    (this.listeners[event] ?? []).slice().forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.warn(`Listener for "${String(event)}" failed`, error);
+      }
+    });
+  }
+
+  /**
+   * Whether an event has at least one listener
+   * @param event Event name
+   */
+  hasListeners<K extends keyof Events>(event: K): boolean {
+    return (this.listeners[event]?.length ?? 0) > 0;
+  }
+}
@@ -1,18 +1,94 @@
-import { ApiError } from '@towncryerio/towncryer-js-api-client';
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  TowncryerError,
+  TowncryerErrorOptions,
+  ValidationError,
+} from './errors';
+import { parseRetryAfter } from './retry';
+
+interface HttpErrorLike {
+  message?: string;
+  isAxiosError?: boolean;
+  request?: unknown;
+  response?: {
+    status: number;
+    headers?: Record<string, unknown>;
+    data?: {
+      code?: string | number;
+      message?: string;
+      errors?: object;
+    };
+  };
+}
 
 /**
- * Standard error handler for API calls that converts any error to an ApiError format
+ * Standard error handler for API calls that converts any error to the matching TowncryerError subclass
  * @param error The caught error
- * @returns Standardized ApiError object
+ * @param options Extra context to attach, such as the request's idempotency key
+ * @returns Typed TowncryerError; errors that already are one are returned as-is
  */
-export function handleApiError(error: unknown): ApiError {
-  if (typeof error === 'object' && error !== null && 'status' in error && 'message' in error) {
-    return error as ApiError;
-  } else {
-    return {
-      status: 500,
-      message: `Error processing API request: ${error instanceof Error ? error.message : String(error)}`,
-      name: 'ApiError'
-    } as ApiError;
+export function handleApiError(error: unknown, options: TowncryerErrorOptions = {}): TowncryerError {
+  if (error instanceof TowncryerError) {
+    return error;
   }
+
+  if (typeof error !== 'object' || error === null) {
+    return new TowncryerError(`Error processing API request: ${String(error)}`, { ...options, cause: error });
+  }
+
+  const httpError = error as HttpErrorLike;
+  const response = httpError.response;
+
+  if (!response) {
+    if (httpError.isAxiosError || httpError.request) {
+      return new NetworkError(httpError.message || 'Network error', { ...options, cause: error });
+    }
+    return new TowncryerError(
+      `Error processing API request: ${httpError.message ?? String(error)}`,
+      { ...options, cause: error }
+    );
+  }
+
+  const errorOptions: TowncryerErrorOptions = {
+    ...options,
+    status: response.status,
+    code: response.data?.code !== undefined ? String(response.data.code) : undefined,
+    requestId: getHeader(response.headers, 'x-request-id') ?? getHeader(response.headers, 'x-correlation-id'),
+    details: response.data?.errors,
+    cause: error,
+  };
+  const message = response.data?.message || httpError.message || `Request failed with status code ${response.status}`;
+
+  const status = response.status;
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, errorOptions);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, errorOptions);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, errorOptions);
+  }
+  if (status === 408) {
+    return new NetworkError(message, errorOptions);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, {
+      ...errorOptions,
+      retryAfter: parseRetryAfter(response.headers?.['retry-after'])
+    });
+  }
+  if (status >= 500) {
+    return new ServerError(message, errorOptions);
+  }
+  return new TowncryerError(message, errorOptions);
+}
+
+function getHeader(headers: Record<string, unknown> | undefined, name: string): string | undefined {
+  const value = headers?.[name];
+  return typeof value === 'string' ? value : undefined;
 }
@@ -0,0 +1,148 @@
+export interface TowncryerErrorOptions {
+  /**
+   * HTTP status of the failed response, if any
+   */
+  status?: number;
+  /**
+   * Error code reported by the Towncryer API
+   */
+  code?: string;
+  /**
+   * Request ID reported by the Towncryer API, useful when contacting support
+   */
+  requestId?: string;
+  /**
+   * Whether repeating the same request may succeed
+   */
+  retryable?: boolean;
+  /**
+   * Additional error details reported by the API (e.g. field errors)
+   */
+  details?: object;
+  /**
+   * Idempotency key of the failed request, to reconcile or safely resend it
+   */
+  idempotencyKey?: string;
+  /**
+   * The underlying error
+   */
+  cause?: unknown;
+}
+
+/**
+ * A problem with one field of a payload
+ */
+export interface FieldError {
+  /**
+   * Path of the field, e.g. 'emails[0].recipients[1].email'
+   */
+  field: string;
+  message: string;
+}
+
+/**
+ * Base class of every error thrown by the SDK
+ */
+export class TowncryerError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly retryable: boolean;
+  readonly details?: object;
+  readonly idempotencyKey?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: TowncryerErrorOptions = {}) {
+    super(message);
+    this.name = 'TowncryerError';
+    this.status = options.status;
+    this.code = options.code;
+    this.requestId = options.requestId;
+    this.retryable = options.retryable ?? false;
+    this.details = options.details;
+    this.idempotencyKey = options.idempotencyKey;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The request was not authenticated or not authorised (401/403), or tokens could not be refreshed
+ */
+export class AuthenticationError extends TowncryerError {
+  constructor(message: string, options: TowncryerErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The input was rejected, either locally or by the API (400/422)
+ */
+export class ValidationError extends TowncryerError {
+  /**
+   * Every invalid field, when the input was validated locally
+   */
+  readonly fieldErrors: FieldError[];
+
+  constructor(message: string, options: TowncryerErrorOptions & { fieldErrors?: FieldError[] } = {}) {
+    super(message, options);
+    this.name = 'ValidationError';
+    this.fieldErrors = options.fieldErrors ?? [];
+  }
+}
+
+/**
+ * The requested resource does not exist (404)
+ */
+export class NotFoundError extends TowncryerError {
+  constructor(message: string, options: TowncryerErrorOptions = {}) {
+    super(message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The API throttled the request (429)
+ */
+export class RateLimitError extends TowncryerError {
+  /**
+   * Milliseconds the API asked to wait before retrying, if it said so
+   */
+  readonly retryAfter?: number;
+
+  constructor(message: string, options: TowncryerErrorOptions & { retryAfter?: number } = {}) {
+    super(message, { retryable: true, ...options });
+    this.name = 'RateLimitError';
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * The API could not be reached or did not answer in time
+ */
+export class NetworkError extends TowncryerError {
+  constructor(message: string, options: TowncryerErrorOptions = {}) {
+    super(message, { retryable: true, ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The API failed to process the request (5xx)
+ */
+export class ServerError extends TowncryerError {
+  constructor(message: string, options: TowncryerErrorOptions = {}) {
+    super(message, { retryable: true, ...options });
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * An SDK feature was used before it was configured or initialised
+ */
+export class NotInitializedError extends TowncryerError {
+  constructor(message: string, options: TowncryerErrorOptions = {}) {
+    super(message, options);
+    this.name = 'NotInitializedError';
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Generate a random RFC 4122 version 4 UUID
+ * Uses the platform crypto implementation when available and falls back to Math.random
+ * @returns UUID string
+ */
+export function generateId(): string {
+  const cryptoImpl = typeof globalThis !== 'undefined' ? globalThis.crypto : undefined;
+  if (cryptoImpl && typeof cryptoImpl.randomUUID === 'function') {
+    return cryptoImpl.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = Math.random() * 16 | 0;
+    const value = char === 'x' ? random : (random & 0x3 | 0x8);
+    return value.toString(16);
+  });
+}
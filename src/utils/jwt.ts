@@ -0,0 +1,27 @@
+/**
+ * Read the expiry of a JWT without verifying it
+ * @param token Encoded JWT
+ * @returns Expiry as a millisecond timestamp, or undefined if the token is not a JWT or has no `exp` claim
+ */
+export function getTokenExpiry(token: string): number | undefined {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    return undefined;
+  }
+
+  try {
+    const claims = JSON.parse(decodeBase64Url(payload));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - value.length % 4) % 4);
+
+  if (typeof atob === 'function') {
+    return atob(base64);
+  }
+  return Buffer.from(base64, 'base64').toString('binary');
+}
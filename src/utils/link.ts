@@ -0,0 +1,16 @@
+/**
+ * Resolve a notification link against the app's URL, keeping only http(s) links to the app itself.
+ * Links come from message payloads, so anything else, e.g. a `javascript:` URL, is not followed.
+ * @param link Absolute or relative link
+ * @param base URL of the app, e.g. `window.location.href`
+ * @returns The absolute link, or undefined when it must not be followed
+ */
+export function toSafeLink(link: string, base: string): string | undefined {
+  try {
+    const url = new URL(link, base);
+    const origin = new URL(base).origin;
+    return (url.protocol === 'https:' || url.protocol === 'http:') && url.origin === origin ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
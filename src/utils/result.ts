@@ -0,0 +1,65 @@
+import { TowncryerError } from './errors';
+import { handleApiError } from './errorHandler';
+
+/**
+ * Outcome of an SDK call that never throws
+ */
+export type Result<T, E extends TowncryerError = TowncryerError> =
+  | { ok: true; data: T }
+  | { ok: false; error: E };
+
+/**
+ * The methods of T, rewritten to return a Result instead of throwing or rejecting
+ */
+export type SafeApi<T> = {
+  [K in keyof T as T[K] extends (...args: never[]) => unknown ? K : never]:
+    T[K] extends (...args: infer A) => infer R
+      ? (...args: A) => R extends Promise<infer D> ? Promise<Result<D>> : Result<R>
+      : never;
+};
+
+/**
+ * Run an async operation and capture its outcome as a Result
+ * @param promise The operation's promise
+ */
+export async function toResult<T>(promise: Promise<T>): Promise<Result<T>> {
+  try {
+    return { ok: true, data: await promise };
+  } catch (error) {
+    return { ok: false, error: handleApiError(error) };
+  }
+}
+
+/**
+ * Wrap an object so every method returns a Result instead of throwing or rejecting
+ * @param target Object whose methods to wrap, e.g. the SDK or one of its services
+ * @example
+ * ```typescript
+ * const result = await createSafeApi(towncryer).publishEvent(event);
+ * if (!result.ok) {
+ *   console.error(result.error.status, result.error.message);
+ * }
+ * ```
+ */
+export function createSafeApi<T extends object>(target: T): SafeApi<T> {
+  return new Proxy(target, {
+    get(object, property) {
+      const value = Reflect.get(object, property);
+      if (typeof value !== 'function') {
+        return undefined;
+      }
+
+      return (...args: unknown[]) => {
+        try {
+          const returned = value.apply(object, args);
+          if (returned instanceof Promise) {
+            return toResult(returned);
+          }
+          return { ok: true, data: returned };
+        } catch (error) {
+          return { ok: false, error: handleApiError(error) };
+        }
+      };
+    }
+  }) as unknown as SafeApi<T>;
+}
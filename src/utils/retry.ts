@@ -0,0 +1,141 @@
+/**
+ * Retry policy applied to every API request made by the SDK
+ */
+export interface RetryPolicy {
+  /**
+   * Total attempts per request, including the first one (default: 3)
+   */
+  maxAttempts: number;
+  /**
+   * Base delay in milliseconds for exponential backoff (default: 300)
+   */
+  baseDelay: number;
+  /**
+   * Upper bound for a single backoff delay in milliseconds (default: 10000)
+   */
+  maxDelay: number;
+  /**
+   * Randomise each delay between 0 and the backoff value ("full jitter") (default: true)
+   */
+  jitter: boolean;
+  /**
+   * HTTP status codes that are retried (default: 408, 429, 500, 502, 503, 504)
+   */
+  retryableStatusCodes: number[];
+  /**
+   * Wait as long as the server's Retry-After header asks; requests are not retried
+   * when it asks for longer than `maxDelay` (default: true)
+   */
+  respectRetryAfter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+// The request never reached the server, so even non-idempotent requests are safe to resend
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * The subset of an axios error the retry decision depends on
+ */
+export interface RetryableRequestError {
+  code?: string;
+  config?: {
+    method?: string;
+    headers?: Record<string, unknown>;
+  };
+  response?: {
+    status: number;
+    headers?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Parse a Retry-After header value (delay in seconds or an HTTP date)
+ * @param value Header value
+ * @returns Delay in milliseconds, or undefined if the header is missing or malformed
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if ((typeof value !== 'string' || value.trim() === '') && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Compute the exponential backoff delay before the given retry
+ * @param retry Retry number, starting at 1
+ * @param policy Retry policy
+ */
+export function computeBackoffDelay(retry: number, policy: RetryPolicy): number {
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, retry - 1));
+  return policy.jitter ? Math.floor(Math.random() * backoff) : backoff;
+}
+
+/**
+ * Whether resending the request cannot cause the operation to happen twice
+ * @param error The failed request's error
+ */
+export function isSafeToRetry(error: RetryableRequestError): boolean {
+  const method = (error.config?.method ?? 'get').toLowerCase();
+  if (IDEMPOTENT_METHODS.includes(method)) {
+    return true;
+  }
+
+  if (error.config?.headers?.[IDEMPOTENCY_KEY_HEADER]) {
+    return true;
+  }
+
+  // Throttled requests are rejected before being processed
+  if (error.response?.status === 429) {
+    return true;
+  }
+
+  return !error.response && !!error.code && CONNECTION_ERROR_CODES.includes(error.code);
+}
+
+/**
+ * Decide whether and when a failed request should be retried
+ * @param error The failed request's error
+ * @param retry Retry number that would be made, starting at 1
+ * @param policy Retry policy
+ * @returns Delay in milliseconds before retrying, or undefined to give up
+ */
+export function getRetryDelay(error: RetryableRequestError, retry: number, policy: RetryPolicy): number | undefined {
+  if (retry >= policy.maxAttempts || error.code === 'ERR_CANCELED' || !isSafeToRetry(error)) {
+    return undefined;
+  }
+
+  if (error.response && !policy.retryableStatusCodes.includes(error.response.status)) {
+    return undefined;
+  }
+
+  if (policy.respectRetryAfter && error.response) {
+    const retryAfter = parseRetryAfter(error.response.headers?.['retry-after']);
+    if (retryAfter !== undefined) {
+      return retryAfter <= policy.maxDelay ? retryAfter : undefined;
+    }
+  }
+
+  return computeBackoffDelay(retry, policy);
+}
@@ -0,0 +1,91 @@
+import { MessageTemplate, MessagesPayload, RenderedTemplate, TemplateMessage, TemplateVariables } from '../types';
+
+// {{ name }}, {{ order.total }} or {{ name | there }}, where the text after the pipe is the fallback
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*(?:\|\s*([^}]*?)\s*)?\}\}/g;
+
+/**
+ * Render a template locally, e.g. to unit test templates or show previews. This is the SDK's
+ * own renderer; check templates the API renders against a real send as well.
+ * Values are inserted as-is; escape them before showing HTML.
+ * @param template Subject and body with `{{ variable }}` or `{{ variable | fallback }}` placeholders
+ * @param variables Values for the placeholders
+ * @returns The rendered subject and body, and the placeholders that had no value
+ * @example
+ * ```typescript
+ * renderPreview({ subject: 'Hi {{ firstName | there }}', body: 'Your total is {{ order.total }}' }, { order: { total: '£12' } });
+ * // { subject: 'Hi there', body: 'Your total is £12', missingVariables: [] }
+ * ```
+ */
+export function renderPreview(template: MessageTemplate, variables: TemplateVariables = {}): RenderedTemplate {
+  const missing: string[] = [];
+  const render = (text: string) => text.replace(PLACEHOLDER_PATTERN, (_, path: string, fallback?: string) => {
+    const value = lookup(variables, path);
+    if (value === undefined || value === null) {
+      if (fallback === undefined && missing.indexOf(path) === -1) {
+        missing.push(path);
+      }
+      return fallback ?? '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+
+  return {
+    ...(template.subject !== undefined ? { subject: render(template.subject) } : {}),
+    body: render(template.body),
+    missingVariables: missing,
+  };
+}
+
+/**
+ * Turn a template message into a bulk message payload, carrying each recipient's variables
+ * @param message Template, channel and recipients
+ */
+export function createTemplatePayload(message: TemplateMessage): MessagesPayload {
+  switch (message.channel) {
+  case 'email':
+    return {
+      emails: [{
+        templateId: message.templateId,
+        from: message.from,
+        title: message.title,
+        recipients: message.recipients.map(recipient => ({
+          email: recipient.email,
+          name: recipient.name ?? '',
+          context: recipient.variables,
+        })),
+      }],
+    };
+  case 'sms':
+    return {
+      smses: [{
+        templateId: message.templateId,
+        from: message.from,
+        to: message.recipients.map(recipient => ({
+          phoneNumber: recipient.phoneNumber,
+          context: recipient.variables,
+        })),
+      }],
+    };
+  case 'push':
+    return {
+      pushNotifications: [{
+        templateId: message.templateId,
+        title: message.title,
+        recipients: message.recipients.map(recipient => ({
+          token: recipient.token,
+          context: recipient.variables,
+        })),
+      }],
+    };
+  }
+}
+
+// Own properties only, so `{{ constructor }}` is missing rather than rendering Object's constructor
+function lookup(variables: TemplateVariables, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key)
+      ? (value as Record<string, unknown>)[key]
+      : undefined),
+    variables
+  );
+}
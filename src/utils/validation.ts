@@ -0,0 +1,211 @@
+import { CreateCustomerRequest, PublishEventPayload } from '@towncryerio/towncryer-js-api-client';
+import { ContactFormData, EmailSubscriptionOptions, MessagesPayload } from '../types';
+import { FieldError, ValidationError } from './errors';
+
+// Deliberately loose: catches typos and missing parts without rejecting valid but unusual addresses
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+
+/**
+ * Whether a string looks like an email address
+ */
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email);
+}
+
+/**
+ * Whether a phone number is in E.164 format, e.g. +447700900123
+ */
+export function isValidPhoneNumber(phoneNumber: string): boolean {
+  return E164_PATTERN.test(phoneNumber);
+}
+
+/**
+ * Collects field errors while walking a payload
+ */
+class FieldErrors {
+  readonly errors: FieldError[] = [];
+
+  add(field: string, message: string) {
+    this.errors.push({ field, message });
+  }
+
+  required(field: string, value: unknown) {
+    if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+      this.add(field, 'is required');
+      return false;
+    }
+    return true;
+  }
+
+  nonEmptyArray(field: string, value: unknown) {
+    if (!Array.isArray(value) || value.length === 0) {
+      this.add(field, 'must contain at least one item');
+      return false;
+    }
+    return true;
+  }
+
+  email(field: string, value: string | undefined) {
+    if (value && !isValidEmail(value)) {
+      this.add(field, 'must be a valid email address');
+    }
+  }
+
+  phoneNumber(field: string, value: string | undefined) {
+    if (value && !isValidPhoneNumber(value)) {
+      this.add(field, 'must be an E.164 phone number, e.g. +447700900123');
+    }
+  }
+
+  contentOrTemplate(field: string, value: { content?: string; templateId?: string }) {
+    if (!value.content && !value.templateId) {
+      this.add(field, 'must have content or a templateId');
+    }
+  }
+}
+
+/**
+ * Validate an event before publishing it
+ * @param payload Event to validate
+ * @returns Field errors; empty when the event is valid
+ */
+export function validateEventPayload(payload: PublishEventPayload): FieldError[] {
+  const errors = new FieldErrors();
+  errors.required('name', payload?.name);
+  if (errors.required('customer', payload?.customer)) {
+    errors.required('customer.externalId', payload.customer.externalId);
+    errors.email('customer.email', payload.customer.email);
+    errors.phoneNumber('customer.phoneNumber', payload.customer.phoneNumber);
+  }
+  return errors.errors;
+}
+
+/**
+ * Validate a customer before creating it
+ * @param customer Customer to validate
+ * @returns Field errors; empty when the customer is valid
+ */
+export function validateCreateCustomerRequest(customer: CreateCustomerRequest): FieldError[] {
+  const errors = new FieldErrors();
+  errors.required('source', customer?.source);
+  if (errors.nonEmptyArray('identities', customer?.identities)) {
+    customer.identities.forEach((identity, index) => {
+      const field = `identities[${index}]`;
+      errors.required(`${field}.type`, identity.type);
+      if (!errors.required(`${field}.value`, identity.value)) {
+        return;
+      }
+      if (identity.type === 'email') {
+        errors.email(`${field}.value`, identity.value);
+      } else if (identity.type === 'phone') {
+        errors.phoneNumber(`${field}.value`, identity.value);
+      }
+    });
+  }
+  return errors.errors;
+}
+
+/**
+ * Validate messages before sending them
+ * @param messages Messages to validate
+ * @returns Field errors; empty when the messages are valid
+ */
+export function validateBulkMessagesPayload(messages: MessagesPayload): FieldError[] {
+  const errors = new FieldErrors();
+  const emails = messages?.emails ?? [];
+  const pushNotifications = messages?.pushNotifications ?? [];
+  const smses = messages?.smses ?? [];
+
+  if (emails.length + pushNotifications.length + smses.length === 0) {
+    errors.add('messages', 'must contain at least one email, push notification or SMS');
+  }
+
+  emails.forEach((email, index) => {
+    const field = `emails[${index}]`;
+    errors.contentOrTemplate(field, email);
+    errors.email(`${field}.from.email`, email.from?.email);
+    if (errors.nonEmptyArray(`${field}.recipients`, email.recipients)) {
+      email.recipients.forEach((recipient, recipientIndex) => {
+        const recipientField = `${field}.recipients[${recipientIndex}].email`;
+        if (errors.required(recipientField, recipient.email)) {
+          errors.email(recipientField, recipient.email);
+        }
+      });
+    }
+  });
+
+  pushNotifications.forEach((pushNotification, index) => {
+    const field = `pushNotifications[${index}]`;
+    errors.contentOrTemplate(field, pushNotification);
+    if (errors.nonEmptyArray(`${field}.recipients`, pushNotification.recipients)) {
+      pushNotification.recipients.forEach((recipient, recipientIndex) => {
+        errors.required(`${field}.recipients[${recipientIndex}].token`, recipient.token);
+      });
+    }
+  });
+
+  smses.forEach((sms, index) => {
+    const field = `smses[${index}]`;
+    errors.contentOrTemplate(field, sms);
+    errors.required(`${field}.from`, sms.from);
+    if (errors.nonEmptyArray(`${field}.to`, sms.to)) {
+      sms.to.forEach((recipient, recipientIndex) => {
+        const recipientField = `${field}.to[${recipientIndex}].phoneNumber`;
+        if (errors.required(recipientField, recipient.phoneNumber)) {
+          errors.phoneNumber(recipientField, recipient.phoneNumber);
+        }
+      });
+    }
+  });
+
+  return errors.errors;
+}
+
+/**
+ * Validate a contact form submission
+ * @param formData Contact form data to validate
+ * @returns Field errors; empty when the form is valid
+ */
+export function validateContactFormData(formData: ContactFormData): FieldError[] {
+  const errors = new FieldErrors();
+  errors.required('name', formData?.name);
+  if (errors.required('email', formData?.email)) {
+    errors.email('email', formData.email);
+  }
+  errors.required('subject', formData?.subject);
+  errors.required('message', formData?.message);
+  return errors.errors;
+}
+
+/**
+ * Validate an email subscription
+ * @param email Email address to subscribe
+ * @param options Subscription options
+ * @returns Field errors; empty when the subscription is valid
+ */
+export function validateEmailSubscription(email: string, options: EmailSubscriptionOptions = {}): FieldError[] {
+  const errors = new FieldErrors();
+  if (errors.required('email', email)) {
+    errors.email('email', email);
+  }
+  if (options.preferences !== undefined
+    && (!Array.isArray(options.preferences) || options.preferences.some(preference => typeof preference !== 'string'))) {
+    errors.add('preferences', 'must be a list of strings');
+  }
+  return errors.errors;
+}
+
+/**
+ * Throw if there are field errors
+ * @param errors Field errors from one of the validate functions
+ * @param subject What was validated, used in the error message
+ * @throws ValidationError listing every field error
+ */
+export function assertValid(errors: FieldError[], subject: string): void {
+  if (errors.length === 0) {
+    return;
+  }
+  const summary = errors.map(error => `${error.field} ${error.message}`).join('; ');
+  throw new ValidationError(`Invalid ${subject}: ${summary}`, { fieldErrors: errors });
+}
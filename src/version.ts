@@ -0,0 +1,4 @@
+export const SDK_NAME = '@towncryerio/towncryer-js-sdk';
+
+// Rewritten from package.json by the `version` script, which `npm version` runs during a release
+export const SDK_VERSION = '1.2.1';